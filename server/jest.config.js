@@ -0,0 +1,8 @@
+// Cron schedules are evaluated in the server's local time, a fixed zone keeps the DST cases reproducible
+process.env.TZ = 'Europe/Berlin';
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src']
+};
@@ -0,0 +1,136 @@
+/// <reference lib="dom" />
+import { RecorderToolbarState } from '../types';
+
+// Assertions that are made by clicking an element; URL assertions need no element
+export type PickedAssertion = 'text' | 'visible' | 'value';
+
+export interface ToolbarHandlers {
+  togglePause(): void;
+  assert(kind: PickedAssertion | 'url'): void;
+}
+
+export interface RecorderOverlay {
+  // Events from inside the overlay are the recorder's own and must not be recorded
+  contains(event: Event): boolean;
+  // Mutations of the overlay host must not count as the page reacting to a hover
+  isOwnMutation(mutation: MutationRecord): boolean;
+  highlight(element: Element | null): void;
+  showToolbar(handlers: ToolbarHandlers): void;
+  renderToolbar(state: RecorderToolbarState, picking: PickedAssertion | null): void;
+}
+
+/**
+ * Draws the recording toolbar and the element highlight inside the recorded page. Like the
+ * recorder script it is serialized with `toString()` and must stay self-contained.
+ *
+ * Everything lives in a closed shadow root, so page styles do not leak in and page scripts
+ * and the recorder's mutation observer cannot see inside it.
+ */
+export function createOverlay(attachShadow: typeof Element.prototype.attachShadow): RecorderOverlay {
+  const ASSERTIONS: { kind: PickedAssertion | 'url'; label: string }[] = [
+    { kind: 'text', label: 'Assert text' },
+    { kind: 'visible', label: 'Assert visible' },
+    { kind: 'value', label: 'Assert value' },
+    { kind: 'url', label: 'Assert URL' }
+  ];
+
+  const host = document.createElement('playwright-recorder-overlay');
+  // Set before the host is attached, so the page never sees these attributes change
+  host.setAttribute('style', 'all: initial; position: fixed; top: 0; left: 0; width: 0; height: 0; z-index: 2147483647;');
+  const root = attachShadow.call(host, { mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .highlight {
+      position: fixed; pointer-events: none; display: none;
+      background: rgba(111, 168, 220, 0.35); outline: 2px solid #2f6fb2;
+    }
+    .toolbar {
+      position: fixed; top: 8px; left: 50%; transform: translateX(-50%); display: none; gap: 4px;
+      padding: 4px; border-radius: 6px; background: #1f2937; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.35);
+      font: 12px/1.2 system-ui, sans-serif;
+    }
+    button {
+      padding: 4px 8px; border: 0; border-radius: 4px; background: #374151; color: #f9fafb;
+      font: inherit; cursor: pointer;
+    }
+    button:hover:not(:disabled) { background: #4b5563; }
+    button:disabled { opacity: 0.5; cursor: default; }
+    button.active { background: #2f6fb2; }
+    .status { align-self: center; padding: 0 6px; color: #f87171; }
+    .status.paused { color: #fbbf24; }
+  `;
+
+  const highlightBox = document.createElement('div');
+  highlightBox.className = 'highlight';
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'toolbar';
+  const status = document.createElement('span');
+  status.className = 'status';
+  const pauseButton = document.createElement('button');
+  const assertButtons = ASSERTIONS.map(({ kind, label }) => {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.dataset['kind'] = kind;
+    return button;
+  });
+  toolbar.append(status, pauseButton, ...assertButtons);
+  root.append(style, highlightBox, toolbar);
+
+  // Pages may replace the document element's children, e.g. when a framework hydrates
+  const mount = () => {
+    if (!host.isConnected && document.documentElement) document.documentElement.appendChild(host);
+  };
+
+  const contains = (event: Event): boolean => event.composedPath().includes(host);
+
+  const isOwnMutation = (mutation: MutationRecord): boolean =>
+    mutation.target === host ||
+    (mutation.type === 'childList' &&
+      [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)].every(node => node === host));
+
+  const highlight = (element: Element | null) => {
+    if (!element) {
+      highlightBox.style.display = 'none';
+      return;
+    }
+
+    mount();
+    const bounds = element.getBoundingClientRect();
+    Object.assign(highlightBox.style, {
+      display: 'block',
+      left: `${bounds.left}px`,
+      top: `${bounds.top}px`,
+      width: `${bounds.width}px`,
+      height: `${bounds.height}px`
+    });
+  };
+
+  const showToolbar = (handlers: ToolbarHandlers) => {
+    pauseButton.addEventListener('click', () => handlers.togglePause());
+    for (const button of assertButtons) {
+      button.addEventListener('click', () => handlers.assert(button.dataset['kind'] as PickedAssertion | 'url'));
+    }
+
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', mount);
+    } else {
+      mount();
+    }
+  };
+
+  const renderToolbar = (state: RecorderToolbarState, picking: PickedAssertion | null) => {
+    toolbar.style.display = state === 'stopped' ? 'none' : 'flex';
+    status.textContent = state === 'recording' ? 'Recording' : 'Paused';
+    status.classList.toggle('paused', state === 'paused');
+    pauseButton.textContent = state === 'recording' ? 'Pause' : 'Resume';
+
+    for (const button of assertButtons) {
+      button.disabled = state !== 'recording';
+      button.classList.toggle('active', button.dataset['kind'] === picking);
+    }
+  };
+
+  return { contains, isOwnMutation, highlight, showToolbar, renderToolbar };
+}
@@ -0,0 +1,490 @@
+/// <reference lib="dom" />
+import { RecorderEvent, RecorderToolbarState } from '../types';
+import { createOverlay, PickedAssertion, RecorderOverlay } from './overlay';
+import { createSelectorEngine, SelectorEngine } from './selectorEngine';
+
+export const RECORDER_BINDING = '__playwrightRecorderEmit';
+export const RECORDER_FLUSH = '__playwrightRecorderFlush';
+export const RECORDER_DESCRIBE = '__playwrightRecorderDescribe';
+export const RECORDER_SECRET_NAME = '__playwrightRecorderSecretName';
+export const RECORDER_CONTROL = '__playwrightRecorderControl';
+export const RECORDER_STATE = '__playwrightRecorderSetState';
+
+export type RecorderControlCommand = 'pause' | 'resume' | 'state';
+
+export interface RecorderScriptOptions {
+  bindingName: string;
+  // Window function that sends whatever the recorder is still holding back
+  flushName: string;
+  // Window function that returns the selector of an element, used for iframe elements
+  describeName: string;
+  // Window function that returns the secret name of a sensitive field, null for ordinary fields
+  secretNameName: string;
+  // Binding the toolbar pauses and resumes through, it answers with the recording state
+  controlName: string;
+  // Window function of the top frame that the server calls when the recording state changes
+  stateName: string;
+}
+
+type RecorderPayload = Omit<RecorderEvent, 'sequence' | 'timestamp' | 'url'>;
+
+/**
+ * Runs inside every frame of a recorded page and reports user actions through the
+ * exposed binding. It is serialized with `toString()`, so it must not reference
+ * anything outside its own body; helpers are passed in as arguments.
+ */
+function installRecorder(
+  options: RecorderScriptOptions,
+  createSelectorEngine: () => SelectorEngine,
+  createOverlay: (attachShadow: typeof Element.prototype.attachShadow) => RecorderOverlay
+): void {
+  const recorderWindow = window as unknown as Window & Record<string, unknown>;
+  if (recorderWindow['__playwrightRecorderInstalled']) return;
+  recorderWindow['__playwrightRecorderInstalled'] = true;
+
+  const HOVER_REACTION_MS = 500;
+  const SCROLL_SETTLE_MS = 300;
+  const RECORDED_KEYS = ['Enter', 'Tab', 'Escape'];
+  const SCROLL_KEYS = ['PageDown', 'PageUp', 'Home', 'End', 'ArrowDown', 'ArrowUp', ' '];
+  const MODIFIER_KEYS = ['Control', 'Alt', 'Meta', 'Shift'];
+  // Clipboard, select-all and undo shortcuts in a text field show up in the fill they produce
+  const EDITING_SHORTCUTS = ['a', 'c', 'v', 'x', 'y', 'z'];
+  const NON_TEXT_INPUTS = ['checkbox', 'radio', 'file', 'submit', 'button', 'reset', 'image'];
+  const PICKING_MESSAGE = '__playwrightRecorderPicking';
+  // Everything a click is made of, swallowed while an assertion is being picked
+  const POINTER_EVENTS = ['pointerdown', 'pointerup', 'mousedown', 'mouseup', 'click', 'dblclick', 'auxclick', 'contextmenu'];
+
+  // Per document, the server keeps the order across navigations
+  let sequence = 0;
+
+  const emit = (payload: RecorderPayload) => {
+    const binding = recorderWindow[options.bindingName];
+    if (typeof binding !== 'function') return;
+
+    const event: RecorderEvent = { ...payload, sequence: ++sequence, timestamp: Date.now(), url: location.href };
+    Promise.resolve((binding as (event: RecorderEvent) => unknown)(event)).catch(() => {
+      // The page navigated away before the server received the event
+    });
+  };
+
+  const selectors = createSelectorEngine();
+  // Created before attachShadow is patched below, the overlay's shadow root is not the page's
+  const overlay = createOverlay(Element.prototype.attachShadow);
+
+  // The first unique candidate wins; the CSS path at the end of the list is unique by construction
+  const describe = (node: Element): Pick<RecorderEvent, 'selector' | 'candidates'> => {
+    const candidates = selectors.candidates(node);
+    const best = candidates.find(candidate => candidate.matches === 1) || candidates[candidates.length - 1];
+    return { selector: best ? best.selector : node.tagName.toLowerCase(), candidates };
+  };
+
+  // Events from inside open shadow roots are retargeted to the host, the composed path keeps the real target
+  const targetOf = (event: Event): EventTarget | null => event.composedPath()[0] || event.target;
+
+  const inputType = (element: unknown): string =>
+    element instanceof HTMLInputElement ? element.type.toLowerCase() : '';
+
+  const isToggle = (element: unknown): boolean => ['checkbox', 'radio'].includes(inputType(element));
+
+  const isEditable = (element: unknown): boolean =>
+    (element instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(inputType(element))) ||
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLElement && element.isContentEditable);
+
+  // Keystrokes in a field are merged into one fill, sent when the field loses focus,
+  // changes or the user does something else
+  let pendingFill: { element: HTMLInputElement | HTMLTextAreaElement; startedAt: number } | null = null;
+
+  const flushFill = () => {
+    if (!pendingFill) return;
+
+    const { element, startedAt } = pendingFill;
+    pendingFill = null;
+    const secret = selectors.secretName(element);
+    emit({
+      eventType: 'fill',
+      ...describe(element),
+      value: element.value,
+      startedAt,
+      fingerprint: selectors.fingerprint(element),
+      ...(secret !== null && { sensitive: secret })
+    });
+  };
+
+  // Scrolls are reported once they settle, or right before the next action if that comes first
+  let scrollTimer: number | undefined;
+  let scrollContainer: Element | null = null;
+  let userScrollAt = 0;
+
+  const reportScroll = () => {
+    scrollTimer = undefined;
+    const bounds = scrollContainer
+      ? scrollContainer.getBoundingClientRect()
+      : { left: 0, top: 0, width: innerWidth, height: innerHeight };
+    const element = document.elementFromPoint(bounds.left + bounds.width / 2, bounds.top + bounds.height / 2);
+    if (!element || element === document.documentElement || element === document.body) return;
+
+    emit({ eventType: 'scroll', ...describe(element) });
+  };
+
+  const flushScroll = () => {
+    if (scrollTimer === undefined) return;
+    clearTimeout(scrollTimer);
+    reportScroll();
+  };
+
+  const send = (payload: RecorderPayload) => {
+    flushFill();
+    flushScroll();
+    emit(payload);
+  };
+
+  // Called by the server before it stops recording, so nothing typed is left behind
+  recorderWindow[options.flushName] = () => {
+    flushFill();
+    flushScroll();
+  };
+
+  // Called by the server on the iframe element of a child frame to build the step's frame chain
+  recorderWindow[options.describeName] = (element: Element) => describe(element).selector;
+
+  // Called by the server before a remote type action, so its step is masked like a recorded fill
+  recorderWindow[options.secretNameName] = (element: Element) => selectors.secretName(element);
+
+  const markUserScroll = () => {
+    userScrollAt = Date.now();
+  };
+
+  document.addEventListener('wheel', markUserScroll, { capture: true, passive: true });
+  document.addEventListener('touchmove', markUserScroll, { capture: true, passive: true });
+
+  document.addEventListener('scroll', event => {
+    // Ignore scrolling done by page scripts, such as restoring the position after a navigation
+    if (Date.now() - userScrollAt > SCROLL_SETTLE_MS) return;
+
+    scrollContainer = event.target instanceof Element && event.target !== document.documentElement ? event.target : null;
+    clearTimeout(scrollTimer);
+    scrollTimer = window.setTimeout(() => {
+      flushFill();
+      reportScroll();
+    }, SCROLL_SETTLE_MS);
+  }, true);
+
+  // A hover is only recorded when the page reacts to it, e.g. by opening a menu
+  let hoverTarget: Element | null = null;
+  let hoverStartedAt = 0;
+  let hoverReported = false;
+  let lastInteractionAt = 0;
+  let lastMutationAt = 0;
+
+  document.addEventListener('mouseover', event => {
+    const node = targetOf(event);
+    if (!event.isTrusted || picking || overlay.contains(event) || !(node instanceof Element)) return;
+
+    const target = selectors.actionTarget(node);
+    if (target === hoverTarget) return;
+
+    hoverTarget = target;
+    hoverStartedAt = Date.now();
+    // Pages that were already changing, like carousels, would turn every hover into a step
+    hoverReported = hoverStartedAt - lastMutationAt < HOVER_REACTION_MS;
+  }, true);
+
+  const mutationObserver = new MutationObserver(mutations => {
+    const now = Date.now();
+    const revealed = mutations.some(mutation =>
+      !overlay.isOwnMutation(mutation) && (mutation.type === 'attributes' || mutation.addedNodes.length > 0)
+    );
+    if (!revealed) return;
+
+    const reactsToHover = hoverTarget && !hoverReported && !picking &&
+      now - hoverStartedAt < HOVER_REACTION_MS &&
+      // Clicks and key presses change the page too
+      now - lastInteractionAt > HOVER_REACTION_MS;
+    lastMutationAt = now;
+
+    if (reactsToHover && hoverTarget) {
+      hoverReported = true;
+      send({ eventType: 'hover', ...describe(hoverTarget) });
+    }
+  });
+
+  document.addEventListener('pointerdown', event => {
+    if (!event.isTrusted || overlay.contains(event)) return;
+    lastInteractionAt = Date.now();
+    // Dragging a scrollbar scrolls without wheel events
+    markUserScroll();
+  }, true);
+
+  // Only record what the user did, not events dispatched by page scripts
+  document.addEventListener('click', event => {
+    const node = targetOf(event);
+    if (!event.isTrusted || overlay.contains(event) || !(node instanceof Element)) return;
+
+    const target = selectors.actionTarget(node);
+    // Toggles, selects and file inputs are recorded from their change events
+    const control = target instanceof HTMLLabelElement ? target.control : target;
+    if (isToggle(control) || inputType(control) === 'file' || control instanceof HTMLSelectElement) return;
+
+    send({ eventType: 'click', ...describe(target), fingerprint: selectors.fingerprint(target) });
+  }, true);
+
+  document.addEventListener('input', event => {
+    const target = targetOf(event);
+    if (!event.isTrusted || !(target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement)) return;
+    if (NON_TEXT_INPUTS.includes(inputType(target))) return;
+
+    if (pendingFill && pendingFill.element !== target) flushFill();
+    if (!pendingFill) pendingFill = { element: target, startedAt: Date.now() };
+  }, true);
+
+  document.addEventListener('focusout', event => {
+    if (pendingFill && targetOf(event) === pendingFill.element) flushFill();
+  }, true);
+
+  window.addEventListener('pagehide', flushFill);
+
+  // change does not cross shadow boundaries, so it is also listened for on each open shadow root
+  const onChange = (event: Event) => {
+    const target = targetOf(event);
+    if (pendingFill && target === pendingFill.element) {
+      flushFill();
+      return;
+    }
+    if (!event.isTrusted) return;
+
+    if (target instanceof HTMLSelectElement) {
+      const values = Array.from(target.selectedOptions).map(option => option.value);
+      send({ eventType: 'select', ...describe(target), values });
+    } else if (target instanceof HTMLInputElement && isToggle(target)) {
+      send({ eventType: target.checked ? 'check' : 'uncheck', ...describe(target) });
+    } else if (target instanceof HTMLInputElement && inputType(target) === 'file') {
+      const files = Array.from(target.files || []).map(file => ({
+        name: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size
+      }));
+      send({ eventType: 'upload', ...describe(target), files });
+    }
+  };
+
+  const observeRoot = (root: Document | ShadowRoot) => {
+    root.addEventListener('change', onChange, true);
+    mutationObserver.observe(root, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['class', 'style', 'hidden', 'open', 'aria-expanded', 'aria-hidden']
+    });
+  };
+
+  observeRoot(document);
+
+  // The recorder runs before page scripts, so every open shadow root is created through here
+  const attachShadow = Element.prototype.attachShadow;
+  Element.prototype.attachShadow = function (this: Element, init: ShadowRootInit): ShadowRoot {
+    const root = attachShadow.call(this, init);
+    if (init.mode === 'open') observeRoot(root);
+    return root;
+  };
+
+  const keyDescription = (event: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(event.key)) return null;
+
+    const modifiers = [
+      event.ctrlKey && 'Control',
+      event.altKey && 'Alt',
+      event.metaKey && 'Meta',
+      event.shiftKey && 'Shift'
+    ].filter((modifier): modifier is string => Boolean(modifier));
+
+    if (event.ctrlKey || event.altKey || event.metaKey) {
+      if (isEditable(targetOf(event)) && EDITING_SHORTCUTS.includes(event.key.toLowerCase())) return null;
+      // Alt changes event.key on some layouts, the physical key is stable
+      const key = /^Key[A-Z]$/.test(event.code) ? event.code.slice(3)
+        : /^Digit\d$/.test(event.code) ? event.code.slice(5)
+          : event.key === ' ' ? 'Space' : event.key;
+      return [...modifiers, key].join('+');
+    }
+
+    if (!RECORDED_KEYS.includes(event.key)) return null;
+
+    // Enter on a button or link produces a click, which is recorded instead
+    const target = targetOf(event);
+    if (event.key === 'Enter' && target instanceof Element && target.closest('button, a[href], summary, [role="button"], [role="link"]')) return null;
+
+    return [...modifiers, event.key].join('+');
+  };
+
+  document.addEventListener('keydown', event => {
+    if (!event.isTrusted || event.repeat || overlay.contains(event)) return;
+    lastInteractionAt = Date.now();
+    const node = targetOf(event);
+    if (SCROLL_KEYS.includes(event.key) && !isEditable(node)) markUserScroll();
+
+    const key = keyDescription(event);
+    if (!key) return;
+
+    const target = node instanceof Element && node !== document.body && node !== document.documentElement ? node : null;
+    send({ eventType: 'press', ...(target ? describe(target) : { selector: '' }), key });
+  }, true);
+
+  // The toolbar lives in the top frame, while the element to assert on can be in any frame. The
+  // picking mode is passed down to child frames with postMessage, and a child that is done
+  // picking tells the top frame, which passes the end of picking down again
+  const isTopFrame = window === window.top;
+  let toolbarState: RecorderToolbarState = 'stopped';
+  let picking: PickedAssertion | null = null;
+  let highlighted: Element | null = null;
+
+  const setPicking = (mode: PickedAssertion | null) => {
+    picking = mode;
+    if (!mode) {
+      highlighted = null;
+      overlay.highlight(null);
+    }
+    if (isTopFrame) overlay.renderToolbar(toolbarState, picking);
+    for (let index = 0; index < window.frames.length; index++) {
+      window.frames[index]?.postMessage({ [PICKING_MESSAGE]: mode }, '*');
+    }
+  };
+
+  const endPicking = () => {
+    if (isTopFrame) {
+      setPicking(null);
+    } else {
+      window.top?.postMessage({ [PICKING_MESSAGE]: null }, '*');
+    }
+  };
+
+  window.addEventListener('message', event => {
+    const data: unknown = event.data;
+    if (!data || typeof data !== 'object' || !(PICKING_MESSAGE in data)) return;
+    // Child frames only take the mode from their parent, the top frame from any frame below it
+    if (!isTopFrame && event.source !== window.parent) return;
+    event.stopImmediatePropagation();
+    setPicking((data as Record<string, PickedAssertion | null>)[PICKING_MESSAGE] || null);
+  }, true);
+
+  const pickTarget = (node: Element, mode: PickedAssertion): Element | null => {
+    const target = selectors.actionTarget(node);
+    if (mode !== 'value') return target;
+
+    const control = target instanceof HTMLLabelElement ? target.control : target;
+    return control instanceof HTMLInputElement || control instanceof HTMLTextAreaElement ||
+      control instanceof HTMLSelectElement ? control : null;
+  };
+
+  // The element's current text or state becomes the expected value
+  const assertionOf = (target: Element, mode: PickedAssertion): Pick<RecorderEvent, 'assertion' | 'value' | 'checked'> | null => {
+    if (mode === 'visible') return { assertion: 'visible' };
+    if (mode === 'text') {
+      const text = (target.textContent || '').replace(/\s+/g, ' ').trim();
+      return text ? { assertion: 'text', value: text } : null;
+    }
+    if (target instanceof HTMLInputElement && isToggle(target)) return { assertion: 'checked', checked: target.checked };
+    // Asserting a password would write it into the test
+    if (selectors.secretName(target) !== null) return null;
+    return { assertion: 'value', value: (target as HTMLInputElement).value };
+  };
+
+  window.addEventListener('mouseover', event => {
+    const node = targetOf(event);
+    if (!picking || overlay.contains(event) || !(node instanceof Element)) return;
+    highlighted = pickTarget(node, picking);
+    overlay.highlight(highlighted);
+  }, true);
+
+  window.addEventListener('scroll', () => {
+    if (highlighted) overlay.highlight(highlighted);
+  }, true);
+
+  // Registered on the window before any page script runs, so neither the page nor the
+  // recorder's own click listener sees the click that picks the element
+  for (const type of POINTER_EVENTS) {
+    window.addEventListener(type, event => {
+      if (!picking || overlay.contains(event)) return;
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (type !== 'click') return;
+
+      const node = targetOf(event);
+      const target = node instanceof Element ? pickTarget(node, picking) : null;
+      const assertion = target && assertionOf(target, picking);
+      if (!target || !assertion) return;
+
+      send({ eventType: 'assertion', ...describe(target), ...assertion, fingerprint: selectors.fingerprint(target) });
+      endPicking();
+    }, true);
+  }
+
+  window.addEventListener('keydown', event => {
+    if (!picking || event.key !== 'Escape') return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    endPicking();
+  }, true);
+
+  if (isTopFrame) {
+    const setToolbarState = (state: RecorderToolbarState) => {
+      toolbarState = state;
+      if (state !== 'recording' && picking) {
+        setPicking(null);
+      } else {
+        overlay.renderToolbar(toolbarState, picking);
+      }
+    };
+
+    const control = (command: RecorderControlCommand) => {
+      const binding = recorderWindow[options.controlName];
+      if (typeof binding !== 'function') return;
+      Promise.resolve((binding as (command: RecorderControlCommand) => Promise<RecorderToolbarState>)(command))
+        .then(setToolbarState)
+        .catch(() => {
+          // The page navigated away before the server answered
+        });
+    };
+
+    // Called by the server when recording is paused, resumed or stopped from the app
+    recorderWindow[options.stateName] = setToolbarState;
+
+    overlay.showToolbar({
+      togglePause: () => control(toolbarState === 'recording' ? 'pause' : 'resume'),
+      assert: kind => {
+        if (kind === 'url') {
+          send({ eventType: 'assertion', selector: '', assertion: 'url', value: location.href });
+          return;
+        }
+        setPicking(picking === kind ? null : kind);
+      }
+    });
+    control('state');
+  }
+
+  let dragSource: Pick<RecorderEvent, 'selector' | 'candidates'> | null = null;
+
+  document.addEventListener('dragstart', event => {
+    const target = targetOf(event);
+    if (!event.isTrusted || !(target instanceof Element)) return;
+    dragSource = describe(target);
+  }, true);
+
+  document.addEventListener('drop', event => {
+    const target = targetOf(event);
+    if (!event.isTrusted || !dragSource || !(target instanceof Element)) return;
+    send({ eventType: 'drag', ...dragSource, dropTarget: describe(target) });
+    dragSource = null;
+  }, true);
+
+  document.addEventListener('dragend', () => {
+    dragSource = null;
+  }, true);
+}
+
+export function buildRecorderScript(options: RecorderScriptOptions): string {
+  // tsx wraps named functions in __name() calls, which do not exist inside the page
+  return `(() => {
+  const __name = target => target;
+  (${installRecorder.toString()})(${JSON.stringify(options)}, ${createSelectorEngine.toString()}, ${createOverlay.toString()});
+})();`;
+}
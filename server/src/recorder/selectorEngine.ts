@@ -0,0 +1,415 @@
+/// <reference lib="dom" />
+import { ElementFingerprint, SelectorCandidate } from '../types';
+
+export interface SelectorEngine {
+  // The element the user meant when the event hit a nested node, e.g. the button around an icon
+  actionTarget(node: Element): Element;
+  // Every selector considered for the element, best first, with its match count on the page
+  candidates(element: Element): SelectorCandidate[];
+  fingerprint(element: Element): ElementFingerprint;
+  // A name for the secret typed into a sensitive field, null for ordinary fields
+  secretName(element: Element): string | null;
+}
+
+/**
+ * Builds Playwright selectors inside the recorded page. Like the recorder script it is
+ * serialized with `toString()` and must stay self-contained.
+ *
+ * Candidates are ranked data-testid, role and accessible name, label, placeholder, text,
+ * then CSS. Match counts mirror the Playwright engines the selectors use, so a count of 1
+ * means the selector is safe under strict mode. Like those engines, counting and CSS paths
+ * go through open shadow roots.
+ */
+export function createSelectorEngine(): SelectorEngine {
+  const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy'];
+  const ACTION_TARGETS = [
+    'button', 'a[href]', 'input', 'select', 'textarea', 'summary', 'label',
+    '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]',
+    '[role="tab"]', '[role="menuitem"]', '[role="option"]', '[contenteditable=""]', '[contenteditable="true"]'
+  ].join(', ');
+  const NAME_FROM_CONTENT_ROLES = [
+    'button', 'link', 'heading', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+    'menuitemradio', 'option', 'treeitem', 'cell', 'columnheader', 'rowheader', 'tooltip'
+  ];
+  const LABELABLE = 'input, select, textarea, button, meter, output, progress, [aria-label], [aria-labelledby]';
+  // Elements that can have a role without a role attribute, see implicitRole
+  const IMPLICIT_ROLE_ELEMENTS: Record<string, string> = {
+    button: 'button, input', link: 'a[href], area[href]', combobox: 'select, input', listbox: 'select',
+    textbox: 'textarea, input', searchbox: 'input', checkbox: 'input', radio: 'input', slider: 'input',
+    spinbutton: 'input', heading: 'h1, h2, h3, h4, h5, h6', img: 'img', option: 'option', listitem: 'li',
+    navigation: 'nav', dialog: 'dialog'
+  };
+  const NON_TEXT_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE'];
+  const MAX_TEXT_LENGTH = 80;
+  const FINGERPRINT_TEXT_LENGTH = 200;
+  const FINGERPRINT_ATTRIBUTES = [
+    ...TEST_ID_ATTRIBUTES, 'name', 'type', 'href', 'src', 'alt', 'title', 'placeholder', 'for',
+    'role', 'aria-label', 'aria-labelledby', 'aria-describedby', 'value'
+  ];
+  const SENSITIVE_ATTRIBUTE = 'data-sensitive';
+  const SENSITIVE_AUTOCOMPLETE = ['current-password', 'new-password', 'one-time-code', 'cc-number', 'cc-csc'];
+
+  const normalize = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+
+  const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  // The document and every open shadow root below it
+  const allRoots = (): (Document | ShadowRoot)[] => {
+    const roots: (Document | ShadowRoot)[] = [];
+    const collect = (root: Document | ShadowRoot) => {
+      roots.push(root);
+      for (const element of Array.from(root.querySelectorAll('*'))) {
+        if (element.shadowRoot) collect(element.shadowRoot);
+      }
+    };
+    collect(document);
+    return roots;
+  };
+
+  // Collected once per candidates() call, every count for one event sees the same roots
+  let currentRoots: (Document | ShadowRoot)[] | null = null;
+  const roots = (): (Document | ShadowRoot)[] => currentRoots || allRoots();
+
+  const queryAll = (selector: string): Element[] =>
+    roots().flatMap(root => Array.from(root.querySelectorAll(selector)));
+
+  // Playwright's CSS combinators treat a shadow host as the parent of its shadow root's children
+  const parentOf = (element: Element): Element | null => {
+    if (element.parentElement) return element.parentElement;
+    const parent = element.parentNode;
+    return parent instanceof ShadowRoot ? parent.host : null;
+  };
+
+  const isHidden = (element: Element): boolean => {
+    if (element.closest('[aria-hidden="true"]')) return true;
+    if (element.getClientRects().length === 0) return true;
+    return getComputedStyle(element).visibility === 'hidden';
+  };
+
+  const countCss = (selector: string): number => {
+    try {
+      return queryAll(selector).length;
+    } catch {
+      return 0;
+    }
+  };
+
+  const implicitRole = (element: Element): string | null => {
+    const tag = element.tagName.toLowerCase();
+
+    switch (tag) {
+      case 'button':
+        return 'button';
+      case 'a':
+      case 'area':
+        return element.hasAttribute('href') ? 'link' : null;
+      case 'select': {
+        const select = element as HTMLSelectElement;
+        return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+      }
+      case 'textarea':
+        return 'textbox';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'img':
+        return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'option':
+        return 'option';
+      case 'li':
+        return 'listitem';
+      case 'nav':
+        return 'navigation';
+      case 'dialog':
+        return 'dialog';
+      case 'input': {
+        const type = (element.getAttribute('type') || 'text').toLowerCase();
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return element.hasAttribute('list') ? 'combobox' : 'searchbox';
+        if (['text', 'email', 'tel', 'url'].includes(type)) return element.hasAttribute('list') ? 'combobox' : 'textbox';
+        return null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const roleOf = (element: Element): string | null => {
+    const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+    return explicit || implicitRole(element);
+  };
+
+  // aria-labelledby ids resolve within the element's own document or shadow root
+  const textOfIds = (element: Element, ids: string): string => {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    return normalize(ids.split(/\s+/).map(id => root.getElementById(id)?.textContent || '').join(' '));
+  };
+
+  const labelTexts = (element: Element): string[] => {
+    const texts: string[] = [];
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) texts.push(textOfIds(element, labelledBy));
+
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) texts.push(normalize(ariaLabel));
+
+    const labels = (element as HTMLInputElement).labels;
+    if (labels) {
+      for (const label of Array.from(labels)) texts.push(normalize(label.textContent));
+    }
+
+    return texts.filter(Boolean);
+  };
+
+  const accessibleName = (element: Element, role: string | null): string => {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) return textOfIds(element, labelledBy);
+
+    const ariaLabel = normalize(element.getAttribute('aria-label'));
+    if (ariaLabel) return ariaLabel;
+
+    const labels = (element as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return normalize(Array.from(labels).map(label => label.textContent).join(' '));
+    }
+
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'img' || (tag === 'input' && element.getAttribute('type') === 'image')) {
+      const alt = normalize(element.getAttribute('alt'));
+      if (alt) return alt;
+    }
+
+    if (tag === 'input') {
+      const type = (element.getAttribute('type') || '').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type)) {
+        return normalize((element as HTMLInputElement).value) || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+      }
+    }
+
+    if (role && NAME_FROM_CONTENT_ROLES.includes(role)) {
+      const content = normalize(element.textContent);
+      if (content) return content;
+    }
+
+    return normalize(element.getAttribute('title')) || normalize(element.getAttribute('placeholder'));
+  };
+
+  // Elements Playwright's exact text engine returns: the deepest ones whose whole text matches.
+  // Only ancestors of text nodes that are part of the text can match, so only those are compared
+  const textMatches = (text: string): Element[] => {
+    const matches = new Set<Element>();
+
+    for (const root of roots()) {
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const data = normalize(node.nodeValue);
+        if (!data || !text.includes(data)) continue;
+
+        // Ancestors only ever have more text, stop once it is longer than the text looked for
+        for (let element = node.parentElement; element; element = element.parentElement) {
+          const content = normalize(element.textContent);
+          if (content.length > text.length) break;
+          if (content === text) matches.add(element);
+        }
+      }
+    }
+
+    return Array.from(matches).filter(element =>
+      !NON_TEXT_TAGS.includes(element.tagName) &&
+      !Array.from(element.children).some(child => normalize(child.textContent) === text)
+    );
+  };
+
+  // The element's tag, with its position among siblings of the same tag when it has any
+  const pathSegment = (element: Element): string => {
+    const siblings = element.parentNode ? Array.from((element.parentNode as ParentNode).children) : [];
+    const sameTag = siblings.filter(sibling => sibling.tagName === element.tagName);
+    const tag = element.tagName.toLowerCase();
+    return sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(element) + 1})` : tag;
+  };
+
+  const cssPath = (element: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = element;
+    // Paths that cross into a shadow root cannot be counted with querySelectorAll, but are
+    // unique by construction once they reach an id or the document
+    let crossedShadowRoot = false;
+
+    while (current && current !== document.documentElement) {
+      const id = current.id;
+      // Ids with long digit runs are usually generated and change between page loads
+      if (id && !/\d{3,}/.test(id) && countCss(`#${CSS.escape(id)}`) === 1) {
+        parts.unshift(`#${CSS.escape(id)}`);
+        break;
+      }
+
+      const parent: Element | null = parentOf(current);
+      parts.unshift(pathSegment(current));
+
+      crossedShadowRoot ||= current.parentNode instanceof ShadowRoot;
+      if (!crossedShadowRoot && countCss(parts.join(' > ')) === 1) break;
+      current = parent;
+    }
+
+    return parts.join(' > ');
+  };
+
+  const actionTarget = (node: Element): Element => node.closest(ACTION_TARGETS) || node;
+
+  // Unlike cssPath this never stops at an id, so it stays comparable when ids change
+  const domPath = (element: Element): string => {
+    const parts: string[] = [];
+    for (let current: Element | null = element; current; current = parentOf(current)) {
+      parts.unshift(pathSegment(current));
+    }
+    return parts.join(' > ');
+  };
+
+  const nearbyLabels = (element: Element): string[] => {
+    const texts = labelTexts(element);
+
+    const describedBy = element.getAttribute('aria-describedby');
+    if (describedBy) texts.push(textOfIds(element, describedBy));
+
+    const legend = element.closest('fieldset')?.querySelector('legend');
+    if (legend) texts.push(normalize(legend.textContent));
+
+    // Forms without label elements usually put the caption right before the field
+    const previous = element.previousElementSibling;
+    const previousText = previous && !previous.contains(element) ? normalize(previous.textContent) : '';
+    if (previousText && previousText.length <= MAX_TEXT_LENGTH) texts.push(previousText);
+
+    return [...new Set(texts.filter(Boolean))];
+  };
+
+  // Password fields, credential and card number fields, and anything inside a data-sensitive element.
+  // Only a data-sensitive value on the field itself names the secret, a marked form holds several
+  const secretName = (element: Element): string | null => {
+    const type = (element.getAttribute('type') || '').toLowerCase();
+    const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/)
+      .find(token => SENSITIVE_AUTOCOMPLETE.includes(token));
+    if (type !== 'password' && !autocomplete && !element.closest(`[${SENSITIVE_ATTRIBUTE}]`)) return null;
+
+    return normalize(element.getAttribute(SENSITIVE_ATTRIBUTE)) || element.getAttribute('name') ||
+      element.id || autocomplete || type || 'secret';
+  };
+
+  const fingerprint = (element: Element): ElementFingerprint => {
+    // Frameworks mirror the typed value into the value attribute, it must not leave a sensitive field
+    const sensitive = secretName(element) !== null;
+    const attributes: Record<string, string> = {};
+    for (const attribute of FINGERPRINT_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value !== null && !(sensitive && attribute === 'value')) attributes[attribute] = value;
+    }
+
+    const bounds = element.getBoundingClientRect();
+    const role = roleOf(element);
+    const name = role ? accessibleName(element, role) : '';
+    const text = sensitive ? '' : normalize(element.textContent).slice(0, FINGERPRINT_TEXT_LENGTH);
+
+    return {
+      tag: element.tagName.toLowerCase(),
+      ...(element.id && { id: element.id }),
+      classes: Array.from(element.classList),
+      attributes,
+      ...(role && { role }),
+      ...(name && { accessibleName: name }),
+      ...(text && { text }),
+      boundingBox: {
+        x: Math.round(bounds.left + scrollX),
+        y: Math.round(bounds.top + scrollY),
+        width: Math.round(bounds.width),
+        height: Math.round(bounds.height)
+      },
+      domPath: domPath(element),
+      labels: nearbyLabels(element)
+    };
+  };
+
+  const candidates = (element: Element): SelectorCandidate[] => {
+    currentRoots = allRoots();
+    try {
+      return rankedCandidates(element);
+    } finally {
+      currentRoots = null;
+    }
+  };
+
+  const rankedCandidates = (element: Element): SelectorCandidate[] => {
+    const result: SelectorCandidate[] = [];
+    const add = (strategy: SelectorCandidate['strategy'], selector: string, matches: number) => {
+      if (!result.some(candidate => candidate.selector === selector)) {
+        result.push({ selector, strategy, matches });
+      }
+    };
+
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        const selector = `[${attribute}=${quote(value)}]`;
+        add('testid', selector, countCss(selector));
+      }
+    }
+
+    const role = roleOf(element);
+    if (role && role !== 'presentation' && role !== 'none') {
+      const name = accessibleName(element, role);
+      if (name && name.length <= MAX_TEXT_LENGTH) {
+        const sameRole = [`[role~=${quote(role)}]`, IMPLICIT_ROLE_ELEMENTS[role]].filter(Boolean).join(', ');
+        const matches = queryAll(sameRole).filter(other =>
+          roleOf(other) === role && !isHidden(other) && accessibleName(other, role) === name
+        ).length;
+        add('role', `role=${role}[name=${quote(name)}s]`, matches);
+      }
+    }
+
+    for (const label of labelTexts(element)) {
+      if (label.length > MAX_TEXT_LENGTH) continue;
+      const matches = queryAll(LABELABLE).filter(other =>
+        labelTexts(other).includes(label)
+      ).length;
+      add('label', `internal:label=${quote(label)}s`, matches);
+    }
+
+    const placeholder = element.getAttribute('placeholder');
+    if (placeholder) {
+      const selector = `[placeholder=${quote(placeholder)}]`;
+      add('placeholder', selector, countCss(selector));
+    }
+
+    const text = normalize(element.textContent);
+    if (text && text.length <= MAX_TEXT_LENGTH && !['INPUT', 'SELECT', 'TEXTAREA'].includes(element.tagName)) {
+      const matches = textMatches(text);
+      // The text engine may resolve to a child of the element, which is fine to act on
+      const pointsAtElement = matches.length !== 1 || element.contains(matches[0]!);
+      if (pointsAtElement) add('text', `internal:text=${quote(text)}s`, matches.length);
+    }
+
+    const tag = element.tagName.toLowerCase();
+    const name = element.getAttribute('name');
+    if (name) {
+      const selector = `${tag}[name=${quote(name)}]`;
+      add('css', selector, countCss(selector));
+    }
+
+    if (tag === 'iframe') {
+      const title = element.getAttribute('title');
+      if (title) {
+        const selector = `iframe[title=${quote(title)}]`;
+        add('css', selector, countCss(selector));
+      }
+    }
+
+    const path = cssPath(element);
+    // Paths through shadow roots cannot be counted natively, see cssPath
+    add('css', path, element.getRootNode() instanceof ShadowRoot ? 1 : countCss(path));
+
+    return result;
+  };
+
+  return { actionTarget, candidates, fingerprint, secretName };
+}
@@ -0,0 +1,136 @@
+import { Router } from 'express';
+import { promises as fs } from 'fs';
+import { ArtifactStore } from '../services/ArtifactStore';
+import { ApiResponse, Artifact } from '../types';
+import { validateRequest } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const ID_PARAMS = {
+  sessionId: { type: 'string', required: true, pattern: /^[\w-]+$/ },
+  executionId: { type: 'string', required: false, pattern: /^[\w-]+$/ }
+};
+
+export function artifactRoutes(artifactStore: ArtifactStore): Router {
+  const router = Router();
+
+  const withUrl = (sessionId: string, artifact: Artifact) => ({
+    ...artifact,
+    url: `/api/artifacts/${sessionId}/download?path=${encodeURIComponent(artifact.path)}`
+  });
+
+  // List every artifact of a session, including its runs
+  router.get('/:sessionId',
+    validateRequest({ params: ID_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const artifacts = await artifactStore.listSessionArtifacts(sessionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: artifacts.map(artifact => withUrl(sessionId, artifact))
+      };
+
+      res.json(response);
+    })
+  );
+
+  // List the artifacts of a single run
+  router.get('/:sessionId/runs/:executionId',
+    validateRequest({ params: ID_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { sessionId, executionId } = req.params as { sessionId: string; executionId: string };
+      const artifacts = await artifactStore.listRunArtifacts(sessionId, executionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: artifacts.map(artifact => withUrl(sessionId, artifact))
+      };
+
+      res.json(response);
+    })
+  );
+
+  // Download a single artifact
+  router.get('/:sessionId/download',
+    validateRequest({
+      params: ID_PARAMS,
+      query: { path: { type: 'string', required: true, minLength: 1 } }
+    }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const filePath = artifactStore.resolve(sessionId, req.query['path'] as string);
+      const stats = filePath ? await fs.stat(filePath).catch(() => null) : null;
+
+      if (!filePath || !stats?.isFile()) {
+        return res.status(404).json({
+          success: false,
+          error: 'Artifact not found'
+        });
+      }
+
+      return res.download(filePath);
+    })
+  );
+
+  // Delete a single artifact
+  router.delete('/:sessionId/file',
+    validateRequest({
+      params: ID_PARAMS,
+      query: { path: { type: 'string', required: true, minLength: 1 } }
+    }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const deleted = await artifactStore.deleteArtifact(sessionId, req.query['path'] as string);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Artifact not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Artifact deleted successfully'
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Delete all artifacts of a run
+  router.delete('/:sessionId/runs/:executionId',
+    validateRequest({ params: ID_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { sessionId, executionId } = req.params as { sessionId: string; executionId: string };
+      const deleted = await artifactStore.deleteRunArtifacts(sessionId, executionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { deleted },
+        message: 'Run artifacts deleted successfully'
+      };
+
+      res.json(response);
+    })
+  );
+
+  // Delete all artifacts of a session
+  router.delete('/:sessionId',
+    validateRequest({ params: ID_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const deleted = await artifactStore.deleteSessionArtifacts(sessionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { deleted },
+        message: 'Session artifacts deleted successfully'
+      };
+
+      res.json(response);
+    })
+  );
+
+  return router;
+}
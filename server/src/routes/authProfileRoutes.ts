@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { AuthProfileStore } from '../services/AuthProfileStore';
+import { SessionManager } from '../services/SessionManager';
+import { ApiResponse } from '../types';
+import { validateRequest } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const NAME_PARAMS = {
+  name: { type: 'string', required: true, pattern: /^[\w-]+$/ }
+};
+
+export function authProfileRoutes(authProfileStore: AuthProfileStore, sessionManager: SessionManager): Router {
+  const router = Router();
+
+  // Save the storage state of a session's browser, e.g. after recording a login
+  router.post('/',
+    validateRequest({
+      body: {
+        name: { type: 'string', required: true, pattern: /^[\w-]+$/, maxLength: 100 },
+        sessionId: { type: 'string', required: true }
+      }
+    }),
+    asyncHandler(async (req, res) => {
+      const { name, sessionId } = req.body as { name: string; sessionId: string };
+      const profile = await sessionManager.saveAuthProfile(sessionId, name);
+
+      const response: ApiResponse = {
+        success: true,
+        data: profile,
+        message: 'Auth profile saved successfully'
+      };
+
+      res.status(201).json(response);
+    })
+  );
+
+  // List saved profiles; the storage states themselves are never sent
+  router.get('/',
+    asyncHandler(async (_req, res) => {
+      const profiles = await authProfileStore.list();
+
+      const response: ApiResponse = {
+        success: true,
+        data: profiles
+      };
+
+      res.json(response);
+    })
+  );
+
+  router.get('/:name',
+    validateRequest({ params: NAME_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { name } = req.params as { name: string };
+      const profile = await authProfileStore.get(name);
+
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Auth profile not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: profile
+      };
+
+      return res.json(response);
+    })
+  );
+
+  router.delete('/:name',
+    validateRequest({ params: NAME_PARAMS }),
+    asyncHandler(async (req, res) => {
+      const { name } = req.params as { name: string };
+      const deleted = await authProfileStore.delete(name);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Auth profile not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Auth profile deleted successfully'
+      };
+
+      return res.json(response);
+    })
+  );
+
+  return router;
+}
@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import { SessionManager } from '../services/SessionManager';
-import { ApiResponse } from '../types';
+import { AuthProfileStore } from '../services/AuthProfileStore';
+import { ApiResponse, TestStep } from '../types';
 import { asyncHandler } from '../utils/asyncHandler';
 import { PlaywrightCodeGenerator } from '../utils/PlaywrightCodeGenerator';
 import { CICDConfigGenerator } from '../utils/CICDConfigGenerator';
 
-export function exportRoutes(sessionManager: SessionManager): Router {
+export function exportRoutes(sessionManager: SessionManager, authProfileStore: AuthProfileStore): Router {
   const router = Router();
   const codeGenerator = new PlaywrightCodeGenerator();
   const cicdGenerator = new CICDConfigGenerator();
@@ -13,7 +14,7 @@ export function exportRoutes(sessionManager: SessionManager): Router {
   // Export generated Playwright code
   router.get('/:sessionId',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const { format = 'json' } = req.query;
       
       const session = sessionManager.getSession(sessionId);
@@ -42,14 +43,14 @@ export function exportRoutes(sessionManager: SessionManager): Router {
         }
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
   // Export complete test suite with config files
   router.get('/:sessionId/suite',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const { platform = 'github' } = req.query;
       
       const session = sessionManager.getSession(sessionId);
@@ -60,11 +61,30 @@ export function exportRoutes(sessionManager: SessionManager): Router {
         });
       }
 
+      const { authProfile } = session.metadata;
       const testCode = codeGenerator.generatePlaywrightTest(session);
-      const playwrightConfig = codeGenerator.generatePlaywrightConfig();
-      const packageJson = codeGenerator.generatePackageJson(session.testName);
       const cicdConfig = cicdGenerator.generateConfig(platform as string);
 
+      // Sessions recorded signed in get a setup project that replays the login they were saved from
+      const authFiles: Record<string, string> = {};
+      let loginSteps: TestStep[] = [];
+      if (authProfile) {
+        const profile = await authProfileStore.get(authProfile);
+        const loginSession = profile ? await sessionManager.getSessionAsync(profile.sourceSessionId) : null;
+        authFiles['tests/auth.setup.ts'] = codeGenerator.generateAuthSetup(authProfile, loginSession);
+        loginSteps = loginSession?.steps || [];
+      }
+
+      // Values typed into sensitive fields are read from the environment, .env.example lists them
+      const secrets = codeGenerator.secretsOf([...loginSteps, ...session.steps]);
+      const loadEnv = secrets.length > 0;
+      const envFiles: Record<string, string> = loadEnv ? { '.env.example': codeGenerator.generateEnvExample(secrets) } : {};
+      const ignored = [authProfile && 'playwright/.auth/', loadEnv && '.env'].filter(Boolean);
+      if (ignored.length > 0) envFiles['.gitignore'] = `${ignored.join('\n')}\n`;
+
+      const playwrightConfig = codeGenerator.generatePlaywrightConfig({ ...(authProfile && { authProfile }), loadEnv });
+      const packageJson = codeGenerator.generatePackageJson(session.testName, loadEnv);
+
       const response: ApiResponse = {
         success: true,
         data: {
@@ -72,7 +92,9 @@ export function exportRoutes(sessionManager: SessionManager): Router {
             [`tests/${session.testName.toLowerCase().replace(/\s+/g, '-')}.spec.ts`]: testCode,
             'playwright.config.ts': playwrightConfig,
             'package.json': packageJson,
-            [cicdGenerator.getConfigFilename(platform as string)]: cicdConfig
+            [cicdGenerator.getConfigFilename(platform as string)]: cicdConfig,
+            ...authFiles,
+            ...envFiles
           },
           metadata: {
             testName: session.testName,
@@ -83,14 +105,14 @@ export function exportRoutes(sessionManager: SessionManager): Router {
         }
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
   // Export CI/CD configuration
   router.get('/:sessionId/cicd/:platform',
     asyncHandler(async (req, res) => {
-      const { sessionId, platform } = req.params;
+      const { sessionId, platform } = req.params as { sessionId: string; platform: string };
       const { format = 'json' } = req.query;
       
       const session = sessionManager.getSession(sessionId);
@@ -119,14 +141,14 @@ export function exportRoutes(sessionManager: SessionManager): Router {
         }
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
   // Export test report/documentation
   router.get('/:sessionId/report',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       
       const session = sessionManager.getSession(sessionId);
       if (!session) {
@@ -159,7 +181,7 @@ export function exportRoutes(sessionManager: SessionManager): Router {
         data: report
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
@@ -0,0 +1,165 @@
+import { Router } from 'express';
+import { SessionManager } from '../services/SessionManager';
+import { Scheduler } from '../services/Scheduler';
+import { ApiResponse, CreateScheduleRequest } from '../types';
+import { validateRequest } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CronExpression } from '../utils/CronExpression';
+
+export function scheduleRoutes(sessionManager: SessionManager, scheduler: Scheduler): Router {
+  const router = Router();
+
+  // Create a recurring schedule
+  router.post('/',
+    validateRequest({
+      body: {
+        name: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+        cron: { type: 'string', required: true, minLength: 1 },
+        sessionIds: { type: 'array', required: true, items: { type: 'string', minLength: 1 } },
+        browsers: { type: 'array', required: false, items: { type: 'string', enum: ['chromium', 'firefox', 'webkit'] } },
+        mode: { type: 'string', required: false, enum: ['replay', 'spec'] },
+        enabled: { type: 'boolean', required: false }
+      }
+    }),
+    asyncHandler(async (req, res) => {
+      const request: CreateScheduleRequest = req.body;
+
+      if (!CronExpression.isValid(request.cron)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid cron expression: ${request.cron}`
+        });
+      }
+
+      if (request.sessionIds.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'A schedule needs at least one session'
+        });
+      }
+
+      for (const sessionId of request.sessionIds) {
+        if (!(await sessionManager.getSessionAsync(sessionId))) {
+          return res.status(404).json({
+            success: false,
+            error: `Session not found: ${sessionId}`
+          });
+        }
+      }
+
+      const schedule = await scheduler.createSchedule(request);
+
+      const response: ApiResponse = {
+        success: true,
+        data: schedule,
+        message: 'Schedule created successfully'
+      };
+
+      return res.status(201).json(response);
+    })
+  );
+
+  // List schedules with their next fire times
+  router.get('/',
+    asyncHandler(async (_req, res) => {
+      const response: ApiResponse = {
+        success: true,
+        data: scheduler.getSchedules()
+      };
+
+      res.json(response);
+    })
+  );
+
+  // Get a single schedule
+  router.get('/:scheduleId',
+    asyncHandler(async (req, res) => {
+      const { scheduleId } = req.params as { scheduleId: string };
+      const schedule = scheduler.getSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: schedule
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Pause a schedule
+  router.post('/:scheduleId/pause',
+    asyncHandler(async (req, res) => {
+      const { scheduleId } = req.params as { scheduleId: string };
+      const schedule = await scheduler.setEnabled(scheduleId, false);
+
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: schedule,
+        message: 'Schedule paused successfully'
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Resume a paused schedule
+  router.post('/:scheduleId/resume',
+    asyncHandler(async (req, res) => {
+      const { scheduleId } = req.params as { scheduleId: string };
+      const schedule = await scheduler.setEnabled(scheduleId, true);
+
+      if (!schedule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: schedule,
+        message: 'Schedule resumed successfully'
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Delete a schedule
+  router.delete('/:scheduleId',
+    asyncHandler(async (req, res) => {
+      const { scheduleId } = req.params as { scheduleId: string };
+      const deleted = await scheduler.deleteSchedule(scheduleId);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Schedule deleted successfully'
+      };
+
+      return res.json(response);
+    })
+  );
+
+  return router;
+}
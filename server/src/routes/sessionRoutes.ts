@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { SessionManager } from '../services/SessionManager';
+import { BrowserManager } from '../services/BrowserManager';
 import { WebSocketManager } from '../services/WebSocketManager';
-import { CreateSessionRequest, AddStepRequest, UpdateStepRequest, ApiResponse } from '../types';
+import { CreateSessionRequest, AddStepRequest, UpdateStepRequest, ApiResponse, NetworkUsage } from '../types';
 import { validateRequest } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
 import { logger } from '../utils/logger';
@@ -15,13 +16,23 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
       body: {
         testName: { type: 'string', required: true, minLength: 1, maxLength: 255 },
         targetUrl: { type: 'string', required: true, pattern: /^https?:\/\/.+/ },
-        settings: { type: 'object', required: false }
+        browser: { type: 'string', required: false, enum: ['chromium', 'firefox', 'webkit'] },
+        settings: { type: 'object', required: false },
+        authProfile: { type: 'string', required: false, pattern: /^[\w-]+$/ }
       }
     }),
     asyncHandler(async (req, res) => {
-      const { testName, targetUrl, settings }: CreateSessionRequest = req.body;
+      const { testName, targetUrl, browser, settings, authProfile }: CreateSessionRequest = req.body;
 
-      const session = await sessionManager.createSession(testName, targetUrl, settings);
+      const contextErrors = settings?.contextOptions ? BrowserManager.contextOptionsErrors(settings.contextOptions) : [];
+      if (contextErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: contextErrors.join('; ')
+        });
+      }
+
+      const session = await sessionManager.createSession(testName, targetUrl, settings, browser, authProfile);
       
       const response: ApiResponse = {
         success: true,
@@ -35,14 +46,14 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
       };
 
       logger.info(`Created session: ${session.id} for test: ${testName}`);
-      res.status(201).json(response);
+      return res.status(201).json(response);
     })
   );
 
   // Get session details
   router.get('/:sessionId', 
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const session = await sessionManager.getSessionAsync(sessionId);
 
       if (!session) {
@@ -57,7 +68,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
         data: session
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
@@ -70,7 +81,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
       }
     }),
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const updates = req.body;
 
       const session = sessionManager.getSession(sessionId);
@@ -92,14 +103,14 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
         message: 'Session updated successfully'
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
   // Start recording
   router.post('/:sessionId/start',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
 
       await sessionManager.startRecording(sessionId);
       
@@ -121,7 +132,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
   // Pause recording
   router.post('/:sessionId/pause',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
 
       await sessionManager.pauseRecording(sessionId);
       
@@ -136,10 +147,28 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
     })
   );
 
+  // Resume a paused recording
+  router.post('/:sessionId/resume',
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+
+      await sessionManager.resumeRecording(sessionId);
+      
+      wsManager.emitToSession(sessionId, 'recording:resumed', { sessionId });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Recording resumed successfully'
+      };
+
+      res.json(response);
+    })
+  );
+
   // Stop recording
   router.post('/:sessionId/stop',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
 
       await sessionManager.stopRecording(sessionId);
       
@@ -157,7 +186,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
   // Add step to session
   router.post('/:sessionId/step',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const { stepData } = req.body;
 
       const step = await sessionManager.addStep(sessionId, stepData);
@@ -185,7 +214,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
       }
     }),
     asyncHandler(async (req, res) => {
-      const { sessionId, stepId } = req.params;
+      const { sessionId, stepId } = req.params as { sessionId: string; stepId: string };
       const updates: UpdateStepRequest = req.body;
 
       const step = await sessionManager.updateStep(sessionId, stepId, updates);
@@ -203,10 +232,36 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
     })
   );
 
+  // Choose how generated tests use a request captured during the step
+  router.put('/:sessionId/step/:stepId/network/:exchangeId',
+    validateRequest({
+      body: {
+        use: { type: 'string', required: true, enum: ['mock', 'wait', 'none'] }
+      }
+    }),
+    asyncHandler(async (req, res) => {
+      const { sessionId, stepId, exchangeId } = req.params as { sessionId: string; stepId: string; exchangeId: string };
+      const { use } = req.body as { use: NetworkUsage | 'none' };
+
+      const step = await sessionManager.setNetworkUsage(sessionId, stepId, exchangeId, use === 'none' ? null : use);
+
+      // Notify connected clients
+      wsManager.emitToSession(sessionId, 'step:updated', { sessionId, stepId, step });
+
+      const response: ApiResponse = {
+        success: true,
+        data: step,
+        message: 'Network usage updated successfully'
+      };
+
+      res.json(response);
+    })
+  );
+
   // Remove step
   router.delete('/:sessionId/step/:stepId',
     asyncHandler(async (req, res) => {
-      const { sessionId, stepId } = req.params;
+      const { sessionId, stepId } = req.params as { sessionId: string; stepId: string };
 
       await sessionManager.removeStep(sessionId, stepId);
       
@@ -225,7 +280,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
   // Get all steps for session
   router.get('/:sessionId/steps',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const session = sessionManager.getSession(sessionId);
 
       if (!session) {
@@ -240,7 +295,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
         data: session.steps
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
@@ -254,13 +309,22 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
         fallbackTimeout: { type: 'number', required: false, min: 1000, max: 60000 },
         screenshotMode: { type: 'string', required: false, enum: ['none', 'on-failure', 'always'] },
         waitTimeout: { type: 'number', required: false, min: 1000, max: 120000 },
-        assertionStrictness: { type: 'string', required: false, enum: ['strict', 'loose'] }
+        assertionStrictness: { type: 'string', required: false, enum: ['strict', 'loose'] },
+        contextOptions: { type: 'object', required: false }
       }
     }),
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
       const settings = req.body;
 
+      const contextErrors = settings.contextOptions ? BrowserManager.contextOptionsErrors(settings.contextOptions) : [];
+      if (contextErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: contextErrors.join('; ')
+        });
+      }
+
       await sessionManager.updateSettings(sessionId, settings);
       
       // Notify connected clients
@@ -271,14 +335,14 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
         message: 'Settings updated successfully'
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
   // Delete session
   router.delete('/:sessionId',
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
 
       await sessionManager.deleteSession(sessionId);
 
@@ -293,7 +357,7 @@ export function sessionRoutes(sessionManager: SessionManager, wsManager: WebSock
 
   // Get all sessions
   router.get('/',
-    asyncHandler(async (req, res) => {
+    asyncHandler(async (_req, res) => {
       const sessions = sessionManager.getAllSessions();
 
       const response: ApiResponse = {
@@ -1,16 +1,53 @@
 import { Router } from 'express';
 import { SessionManager } from '../services/SessionManager';
-import { ApiResponse } from '../types';
+import { TestExecutor } from '../services/TestExecutor';
+import { LiveSelectorValidator } from '../services/LiveSelectorValidator';
+import { ExecutionAbortedError } from '../services/ExecutionQueue';
+import { BrowserManager } from '../services/BrowserManager';
+import { ApiResponse, BrowserContextConfig, BrowserType, LiveValidationResult, MatrixTarget, Viewport } from '../types';
+import { validateRequest } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { ExecutionComparator } from '../utils/ExecutionComparator';
+import { StepValidator } from '../utils/StepValidator';
 import { logger } from '../utils/logger';
 
-export function testRoutes(sessionManager: SessionManager): Router {
+export function testRoutes(
+  sessionManager: SessionManager,
+  testExecutor: TestExecutor,
+  liveSelectorValidator: LiveSelectorValidator
+): Router {
   const router = Router();
+  const comparator = new ExecutionComparator();
+  const stepValidator = new StepValidator();
 
   // Run test locally
   router.post('/:sessionId/run',
+    validateRequest({
+      body: {
+        mode: { type: 'string', required: false, enum: ['replay', 'spec'] },
+        priority: { type: 'string', required: false, enum: ['low', 'normal', 'high'] },
+        timeout: { type: 'number', required: false, min: 1000, max: 3600000 },
+        browsers: { type: 'array', required: false, items: { type: 'string', enum: ['chromium', 'firefox', 'webkit'] } },
+        devices: { type: 'array', required: false, items: { type: 'string' } },
+        viewports: {
+          type: 'array',
+          required: false,
+          items: {
+            type: 'object',
+            properties: {
+              width: { type: 'number', required: true, min: 200, max: 7680 },
+              height: { type: 'number', required: true, min: 200, max: 4320 }
+            }
+          }
+        }
+      }
+    }),
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
+      const { mode, priority, timeout } = req.body;
+      const browsers: BrowserType[] = req.body.browsers || [];
+      const devices: string[] = req.body.devices || [];
+      const viewports: Viewport[] = req.body.viewports || [];
       const session = sessionManager.getSession(sessionId);
 
       if (!session) {
@@ -20,50 +57,323 @@ export function testRoutes(sessionManager: SessionManager): Router {
         });
       }
 
-      // TODO: Implement test execution
-      // This would involve running the generated Playwright code
-      
+      const unknownDevices = devices.filter(device => !BrowserManager.isKnownDevice(device));
+      if (unknownDevices.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown device presets: ${unknownDevices.join(', ')}`
+        });
+      }
+
+      if (browsers.length > 0 || devices.length > 0 || viewports.length > 0) {
+        const targetBrowsers = browsers.length > 0 ? browsers : [(session.metadata.browser as BrowserType) || 'chromium'];
+        const contextConfigs: BrowserContextConfig[] = [
+          ...devices.map(device => ({ device })),
+          ...viewports.map(viewport => ({ viewport }))
+        ];
+        const targets: MatrixTarget[] = targetBrowsers.flatMap(browser =>
+          contextConfigs.length > 0 ? contextConfigs.map(config => ({ browser, ...config })) : [{ browser }]
+        );
+
+        const matrix = testExecutor.startMatrix(session, targets, { mode, priority, timeout });
+        logger.info(`Started matrix ${matrix.id} with ${targets.length} executions for session ${sessionId}`);
+
+        const response: ApiResponse = {
+          success: true,
+          message: 'Test matrix started',
+          data: {
+            matrixId: matrix.id,
+            mode: mode || 'replay',
+            status: matrix.status,
+            cells: matrix.cells.map(cell => ({
+              ...cell,
+              queuePosition: testExecutor.getQueuePosition(cell.executionId)
+            }))
+          }
+        };
+
+        return res.json(response);
+      }
+
+      const execution = testExecutor.startExecution(session, { mode, priority, timeout });
+      logger.info(`Started execution ${execution.id} for session ${sessionId}`);
+
       const response: ApiResponse = {
         success: true,
         message: 'Test execution started',
         data: {
-          executionId: `exec_${Date.now()}`,
-          status: 'running'
+          executionId: execution.id,
+          mode: execution.mode,
+          status: execution.status,
+          queuePosition: testExecutor.getQueuePosition(execution.id)
         }
       };
 
-      res.json(response);
+      return res.json(response);
+    })
+  );
+
+  // Get the combined result of a matrix run
+  router.get('/matrix/:matrixId',
+    asyncHandler(async (req, res) => {
+      const { matrixId } = req.params as { matrixId: string };
+      const matrix = await testExecutor.getMatrix(matrixId);
+
+      if (!matrix) {
+        return res.status(404).json({
+          success: false,
+          error: 'Matrix not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: matrix
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Run a session repeatedly to find flaky steps
+  router.post('/:sessionId/stability',
+    validateRequest({
+      body: {
+        runs: { type: 'number', required: false, min: 2, max: 50 },
+        browsers: { type: 'array', required: false, items: { type: 'string', enum: ['chromium', 'firefox', 'webkit'] } },
+        priority: { type: 'string', required: false, enum: ['low', 'normal', 'high'] },
+        timeout: { type: 'number', required: false, min: 1000, max: 3600000 }
+      }
+    }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const { runs = 5, priority, timeout } = req.body;
+      const session = sessionManager.getSession(sessionId);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found'
+        });
+      }
+
+      if (session.steps.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Session has no steps to run'
+        });
+      }
+
+      const browsers: BrowserType[] = req.body.browsers?.length
+        ? req.body.browsers
+        : [(session.metadata.browser as BrowserType) || 'chromium'];
+
+      const check = testExecutor.startStabilityCheck(session, runs, browsers, { priority, timeout });
+      logger.info(`Started stability check ${check.id} (${runs} runs x ${browsers.length} browsers) for session ${sessionId}`);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Stability check started',
+        data: {
+          checkId: check.id,
+          runs,
+          browsers,
+          totalRuns: check.cells.length,
+          executionIds: check.cells.map(cell => cell.executionId)
+        }
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Get the flakiness report of a stability check
+  router.get('/stability/:checkId',
+    asyncHandler(async (req, res) => {
+      const { checkId } = req.params as { checkId: string };
+      const report = await testExecutor.getStabilityReport(checkId);
+
+      if (!report) {
+        return res.status(404).json({
+          success: false,
+          error: 'Stability check not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: report
+      };
+
+      return res.json(response);
     })
   );
 
   // Get test execution status
   router.get('/execution/:executionId/status',
     asyncHandler(async (req, res) => {
-      const { executionId } = req.params;
+      const { executionId } = req.params as { executionId: string };
+      const execution = await testExecutor.getExecutionAsync(executionId);
+
+      if (!execution) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found'
+        });
+      }
+
+      const completedSteps = execution.stepResults.filter(
+        result => result.status !== 'pending' && result.status !== 'running'
+      ).length;
 
-      // TODO: Implement execution status tracking
-      
       const response: ApiResponse = {
         success: true,
         data: {
           executionId,
-          status: 'completed',
+          sessionId: execution.sessionId,
+          mode: execution.mode,
+          browser: execution.browser,
+          device: execution.device,
+          viewport: execution.viewport,
+          matrixId: execution.matrixId,
+          status: execution.status,
+          queuePosition: testExecutor.getQueuePosition(executionId),
+          progress: {
+            currentStepIndex: execution.currentStepIndex,
+            completed: completedSteps,
+            total: execution.summary.total
+          },
           results: {
-            passed: 5,
-            failed: 0,
-            duration: '2.3s'
-          }
+            passed: execution.summary.passed,
+            failed: execution.summary.failed,
+            healed: execution.summary.healed,
+            skipped: execution.summary.skipped,
+            duration: execution.duration !== undefined ? `${(execution.duration / 1000).toFixed(1)}s` : null
+          },
+          stepResults: execution.stepResults,
+          specResults: execution.specResults,
+          artifactsUrl: `/api/artifacts/${execution.sessionId}/runs/${executionId}`,
+          error: execution.error
         }
       };
 
+      return res.json(response);
+    })
+  );
+
+  // List past executions for a session
+  router.get('/:sessionId/executions',
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const executions = await testExecutor.getExecutionHistory(sessionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: executions
+      };
+
       res.json(response);
     })
   );
 
+  // Compare two executions of a session
+  router.get('/:sessionId/executions/compare',
+    validateRequest({
+      query: {
+        base: { type: 'string', required: true },
+        head: { type: 'string', required: true }
+      }
+    }),
+    asyncHandler(async (req, res) => {
+      const { sessionId } = req.params as { sessionId: string };
+      const { base, head } = req.query;
+
+      const baseExecution = await testExecutor.getExecutionAsync(base as string);
+      const headExecution = await testExecutor.getExecutionAsync(head as string);
+
+      if (!baseExecution || !headExecution
+        || baseExecution.sessionId !== sessionId || headExecution.sessionId !== sessionId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: comparator.compare(baseExecution, headExecution)
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Cancel a queued or running execution
+  router.delete('/execution/:executionId',
+    asyncHandler(async (req, res) => {
+      const { executionId } = req.params as { executionId: string };
+      // Finished runs are no longer held by the executor
+      const execution = testExecutor.cancelExecution(executionId) || await testExecutor.getExecutionAsync(executionId);
+
+      if (!execution) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found'
+        });
+      }
+
+      if (!['queued', 'running', 'cancelled'].includes(execution.status)) {
+        return res.status(409).json({
+          success: false,
+          error: `Execution already finished with status ${execution.status}`
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Execution cancellation requested',
+        data: {
+          executionId,
+          status: execution.status
+        }
+      };
+
+      return res.json(response);
+    })
+  );
+
+  // Get a single execution with its step results
+  router.get('/execution/:executionId',
+    asyncHandler(async (req, res) => {
+      const { executionId } = req.params as { executionId: string };
+      const execution = await testExecutor.getExecutionAsync(executionId);
+
+      if (!execution) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found'
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: execution
+      };
+
+      return res.json(response);
+    })
+  );
+
   // Validate test steps
   router.post('/:sessionId/validate',
+    validateRequest({
+      body: {
+        mode: { type: 'string', required: false, enum: ['static', 'live'] }
+      }
+    }),
     asyncHandler(async (req, res) => {
-      const { sessionId } = req.params;
+      const { sessionId } = req.params as { sessionId: string };
+      const { mode = 'static' } = req.body;
       const session = sessionManager.getSession(sessionId);
 
       if (!session) {
@@ -73,21 +383,40 @@ export function testRoutes(sessionManager: SessionManager): Router {
         });
       }
 
-      // TODO: Implement step validation logic
-      const validationResults = {
-        isValid: true,
-        errors: [],
-        warnings: [
-          'Consider adding more assertions for better test coverage'
-        ]
-      };
+      const staticResults = stepValidator.validate(session);
+      let validationResults = staticResults;
+
+      if (mode === 'live') {
+        // A client that gives up does not keep its place in the queue
+        const disconnected = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) disconnected.abort();
+        });
+
+        let liveResults: LiveValidationResult;
+        try {
+          liveResults = await liveSelectorValidator.validate(session, disconnected.signal);
+        } catch (error) {
+          if (!(error instanceof ExecutionAbortedError)) throw error;
+          return res.status(503).json({
+            success: false,
+            error: error.message
+          });
+        }
+        validationResults = {
+          ...liveResults,
+          isValid: staticResults.isValid && liveResults.isValid,
+          errors: [...staticResults.errors, ...liveResults.errors],
+          warnings: [...staticResults.warnings, ...liveResults.warnings]
+        };
+      }
 
       const response: ApiResponse = {
         success: true,
         data: validationResults
       };
 
-      res.json(response);
+      return res.json(response);
     })
   );
 
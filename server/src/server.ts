@@ -12,9 +12,19 @@ import path from 'path';
 import { sessionRoutes } from './routes/sessionRoutes';
 import { testRoutes } from './routes/testRoutes';
 import { exportRoutes } from './routes/exportRoutes';
+import { scheduleRoutes } from './routes/scheduleRoutes';
+import { artifactRoutes } from './routes/artifactRoutes';
+import { authProfileRoutes } from './routes/authProfileRoutes';
 import { WebSocketManager } from './services/WebSocketManager';
+import { ScreencastManager } from './services/ScreencastManager';
 import { BrowserManager } from './services/BrowserManager';
 import { SessionManager } from './services/SessionManager';
+import { TestExecutor } from './services/TestExecutor';
+import { ExecutionQueue } from './services/ExecutionQueue';
+import { LiveSelectorValidator } from './services/LiveSelectorValidator';
+import { Scheduler } from './services/Scheduler';
+import { ArtifactStore } from './services/ArtifactStore';
+import { AuthProfileStore } from './services/AuthProfileStore';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { validateRequest } from './middleware/validation';
@@ -36,8 +46,15 @@ const io = new SocketIOServer(server, {
 
 // Initialize managers
 const browserManager = new BrowserManager();
-const sessionManager = new SessionManager(browserManager);
-const wsManager = new WebSocketManager(io, sessionManager);
+const authProfileStore = new AuthProfileStore();
+const sessionManager = new SessionManager(browserManager, authProfileStore);
+const screencastManager = new ScreencastManager(browserManager);
+const wsManager = new WebSocketManager(io, sessionManager, screencastManager);
+const executionQueue = new ExecutionQueue();
+const artifactStore = new ArtifactStore();
+const testExecutor = new TestExecutor(browserManager, wsManager, executionQueue, artifactStore, authProfileStore);
+const liveSelectorValidator = new LiveSelectorValidator(browserManager, executionQueue, authProfileStore);
+const scheduler = new Scheduler(sessionManager, testExecutor);
 
 // Middleware
 app.use(
@@ -86,13 +103,17 @@ app.get('/health', (req, res) => {
     uptime: process.uptime(),
     memory: process.memoryUsage(),
     activeSessions: sessionManager.getActiveSessionCount(),
+    executionQueue: executionQueue.getStats(),
   });
 });
 
 // API Routes
 app.use('/api/session', sessionRoutes(sessionManager, wsManager));
-app.use('/api/test', testRoutes(sessionManager));
-app.use('/api/export', exportRoutes(sessionManager));
+app.use('/api/test', testRoutes(sessionManager, testExecutor, liveSelectorValidator));
+app.use('/api/export', exportRoutes(sessionManager, authProfileStore));
+app.use('/api/schedule', scheduleRoutes(sessionManager, scheduler));
+app.use('/api/artifacts', artifactRoutes(artifactStore));
+app.use('/api/auth-profiles', authProfileRoutes(authProfileStore, sessionManager));
 
 // Serve built recording UI
 const recordingPath = path.join(__dirname, '../public/recording');
@@ -113,6 +134,7 @@ app.use('*', (req, res) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  scheduler.stop();
   await browserManager.closeAll();
   server.close(() => {
     logger.info('Server closed');
@@ -122,6 +144,7 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  scheduler.stop();
   await browserManager.closeAll();
   server.close(() => {
     logger.info('Server closed');
@@ -136,6 +159,10 @@ server.listen(PORT, () => {
   logger.info(
     `Frontend URL: ${process.env['FRONTEND_URL'] || 'http://localhost:5173'}`
   );
+
+  scheduler.start().catch(error => {
+    logger.error('Failed to start scheduler:', error);
+  });
 });
 
 export { app, server, io };
@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BrowserContext, Video } from 'playwright';
+import { Artifact, ArtifactType } from '../types';
+import { logger } from '../utils/logger';
+
+const RUNS_DIR = 'runs';
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Files written for a session live under `<RECORDING_DIR>/<sessionId>/`: the recording's
+ * own video and HAR at the top, and one `runs/<executionId>/` folder per execution.
+ */
+export class ArtifactStore {
+  readonly rootDir: string;
+
+  constructor(rootDir: string = process.env['RECORDING_DIR'] || './recordings') {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  sessionDir(sessionId: string): string {
+    return path.join(this.rootDir, this.checkId(sessionId));
+  }
+
+  runDir(sessionId: string, executionId: string): string {
+    return path.join(this.sessionDir(sessionId), RUNS_DIR, this.checkId(executionId));
+  }
+
+  async saveTrace(context: BrowserContext, sessionId: string, executionId: string): Promise<void> {
+    try {
+      await context.tracing.stop({ path: path.join(this.runDir(sessionId, executionId), 'trace.zip') });
+    } catch (error) {
+      logger.warn(`Failed to save trace for execution ${executionId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Moves the video Playwright wrote under a random name to `video.webm`. Resolves once
+   * the page's context is closed.
+   */
+  async saveVideo(video: Video, sessionId: string, executionId: string): Promise<void> {
+    try {
+      await video.saveAs(path.join(this.runDir(sessionId, executionId), 'video.webm'));
+      await video.delete();
+      await fs.rm(path.join(this.runDir(sessionId, executionId), 'videos'), { recursive: true, force: true });
+    } catch (error) {
+      logger.warn(`Failed to save video for execution ${executionId}: ${(error as Error).message}`);
+    }
+  }
+
+  async saveStepScreenshot(
+    sessionId: string,
+    executionId: string,
+    stepIndex: number,
+    capture: (filePath: string) => Promise<unknown>
+  ): Promise<string | undefined> {
+    const filePath = path.join(this.runDir(sessionId, executionId), 'screenshots', `step-${stepIndex + 1}.png`);
+
+    try {
+      await capture(filePath);
+      return path.relative(this.sessionDir(sessionId), filePath).split(path.sep).join('/');
+    } catch (error) {
+      logger.warn(`Failed to capture screenshot for step ${stepIndex + 1} of ${executionId}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  async listSessionArtifacts(sessionId: string): Promise<Artifact[]> {
+    return this.list(sessionId, this.sessionDir(sessionId));
+  }
+
+  async listRunArtifacts(sessionId: string, executionId: string): Promise<Artifact[]> {
+    return this.list(sessionId, this.runDir(sessionId, executionId));
+  }
+
+  /**
+   * Resolves a path from an artifact listing, or returns null when it escapes the session folder.
+   */
+  resolve(sessionId: string, relativePath: string): string | null {
+    const sessionDir = this.sessionDir(sessionId);
+    const filePath = path.resolve(sessionDir, relativePath);
+
+    return filePath.startsWith(sessionDir + path.sep) ? filePath : null;
+  }
+
+  async deleteSessionArtifacts(sessionId: string): Promise<number> {
+    return this.remove(sessionId, this.sessionDir(sessionId));
+  }
+
+  async deleteRunArtifacts(sessionId: string, executionId: string): Promise<number> {
+    return this.remove(sessionId, this.runDir(sessionId, executionId));
+  }
+
+  async deleteArtifact(sessionId: string, relativePath: string): Promise<boolean> {
+    const filePath = this.resolve(sessionId, relativePath);
+    if (!filePath) return false;
+
+    try {
+      await fs.unlink(filePath);
+      logger.info(`Deleted artifact ${relativePath} of session ${sessionId}`);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private async list(sessionId: string, dir: string): Promise<Artifact[]> {
+    const files = await this.walk(dir).catch(error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    });
+
+    const artifacts: Artifact[] = [];
+    for (const file of files) {
+      const stats = await fs.stat(file);
+      const relativePath = path.relative(this.sessionDir(sessionId), file).split(path.sep).join('/');
+      const artifact: Artifact = {
+        path: relativePath,
+        type: this.typeOf(relativePath),
+        size: stats.size,
+        createdAt: stats.mtime.toISOString()
+      };
+
+      const runMatch = /^runs\/([^/]+)\//.exec(relativePath);
+      if (runMatch) artifact.executionId = runMatch[1]!;
+
+      artifacts.push(artifact);
+    }
+
+    return artifacts.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private async remove(sessionId: string, dir: string): Promise<number> {
+    const artifacts = await this.list(sessionId, dir);
+    await fs.rm(dir, { recursive: true, force: true });
+
+    logger.info(`Deleted ${artifacts.length} artifacts from ${path.relative(this.rootDir, dir)}`);
+    return artifacts.length;
+  }
+
+  private checkId(id: string): string {
+    // Ids become folder names, anything else could point outside the recordings folder
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid artifact folder id: ${id}`);
+    }
+    return id;
+  }
+
+  private async walk(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.walk(entryPath));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  private typeOf(relativePath: string): ArtifactType {
+    const extension = path.extname(relativePath).toLowerCase();
+
+    if (extension === '.zip') return 'trace';
+    if (extension === '.webm') return 'video';
+    if (extension === '.har') return 'har';
+    if (extension === '.png' || extension === '.jpg' || extension === '.jpeg') return 'screenshot';
+    return 'other';
+  }
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BrowserContext } from 'playwright';
+import { AuthProfile } from '../types';
+import { logger } from '../utils/logger';
+
+const NAME_PATTERN = /^[\w-]+$/;
+const PROFILE_SUFFIX = '.profile.json';
+
+/**
+ * Auth profiles live under `<AUTH_PROFILE_DIR>/`: `<name>.json` is the Playwright storage
+ * state a context can be created from, `<name>.profile.json` describes where it came from.
+ * Storage states hold session cookies, so the folder must be kept private.
+ */
+export class AuthProfileStore {
+  readonly rootDir: string;
+
+  constructor(rootDir: string = process.env['AUTH_PROFILE_DIR'] || './auth-profiles') {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  statePath(name: string): string {
+    return path.join(this.rootDir, `${this.checkName(name)}.json`);
+  }
+
+  async save(name: string, context: BrowserContext, sourceSessionId: string): Promise<AuthProfile> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const state = await context.storageState({ path: this.statePath(name) });
+
+    const profile: AuthProfile = {
+      name,
+      sourceSessionId,
+      origins: [...new Set([
+        ...state.origins.map(origin => origin.origin),
+        ...state.cookies.map(cookie => cookie.domain)
+      ])],
+      cookieCount: state.cookies.length,
+      createdAt: new Date().toISOString()
+    };
+    await fs.writeFile(this.profilePath(name), JSON.stringify(profile, null, 2));
+
+    logger.info(`Saved auth profile ${name} from session ${sourceSessionId}`);
+    return profile;
+  }
+
+  async get(name: string): Promise<AuthProfile | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.profilePath(name), 'utf8')) as AuthProfile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<AuthProfile[]> {
+    const entries = await fs.readdir(this.rootDir).catch(error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    });
+
+    const profiles: AuthProfile[] = [];
+    for (const entry of entries.filter(file => file.endsWith(PROFILE_SUFFIX))) {
+      const profile = await this.get(entry.slice(0, -PROFILE_SUFFIX.length));
+      if (profile) profiles.push(profile);
+    }
+
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const existed = (await this.get(name)) !== null;
+    await fs.rm(this.statePath(name), { force: true });
+    await fs.rm(this.profilePath(name), { force: true });
+
+    if (existed) logger.info(`Deleted auth profile ${name}`);
+    return existed;
+  }
+
+  // Path to start a context from, failing early when the profile was deleted
+  async resolveState(name: string): Promise<string> {
+    const statePath = this.statePath(name);
+    try {
+      await fs.access(statePath);
+    } catch {
+      throw new Error(`Auth profile not found: ${name}`);
+    }
+    return statePath;
+  }
+
+  private profilePath(name: string): string {
+    return path.join(this.rootDir, `${this.checkName(name)}${PROFILE_SUFFIX}`);
+  }
+
+  private checkName(name: string): string {
+    // Names become file names, anything else could point outside the profiles folder
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid auth profile name: ${name}`);
+    }
+    return name;
+  }
+}
@@ -1,54 +1,65 @@
-import { chromium, firefox, webkit, Browser, BrowserContext, Page } from 'playwright';
+import { chromium, firefox, webkit, devices, Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
 import { logger } from '../utils/logger';
-import { BrowserSession } from '../types';
+import { BrowserContextConfig, BrowserSession, BrowserType, SessionContextOptions } from '../types';
+
+const DEFAULT_VIEWPORT = { width: 1920, height: 1080 };
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 export class BrowserManager {
-  private browsers: Map<string, Browser> = new Map();
+  // Pending launches too, so jobs starting at the same time share one browser
+  private browsers: Map<string, Promise<Browser>> = new Map();
   private sessions: Map<string, BrowserSession> = new Map();
 
-  async createSession(sessionId: string, browserType: 'chromium' | 'firefox' | 'webkit' = 'chromium'): Promise<BrowserSession> {
+  async createSession(
+    sessionId: string,
+    browserType: BrowserType = 'chromium',
+    contextConfig: BrowserContextConfig = {},
+    // null leaves out the video and HAR, for short-lived contexts nobody looks back at
+    recordingDir: string | null = `${process.env['RECORDING_DIR'] || './recordings'}/${sessionId}`
+  ): Promise<BrowserSession> {
     try {
-      // Launch browser if not already running
-      let browser = this.browsers.get(browserType);
-      if (!browser) {
-        browser = await this.launchBrowser(browserType);
-        this.browsers.set(browserType, browser);
-      }
+      const browser = await this.browserFor(browserType);
 
       // Create new context for isolation
+      const emulation = this.resolveEmulation(browserType, contextConfig);
       const context = await browser.newContext({
-        viewport: { width: 1920, height: 1080 },
-        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        recordVideo: {
-          dir: `./recordings/${sessionId}/videos/`,
-          size: { width: 1920, height: 1080 }
-        },
-        recordHar: {
-          path: `./recordings/${sessionId}/network.har`
-        }
+        ...emulation,
+        ...this.environmentOf(contextConfig),
+        // Starts signed in when the session uses an auth profile
+        ...(contextConfig.storageState && { storageState: contextConfig.storageState }),
+        ...(recordingDir !== null && {
+          recordVideo: {
+            dir: `${recordingDir}/videos/`,
+            size: emulation.viewport || DEFAULT_VIEWPORT
+          },
+          recordHar: {
+            path: `${recordingDir}/network.har`
+          }
+        })
       });
 
       // Create new page
       const page = await context.newPage();
-
-      // Enable console logging
-      page.on('console', msg => {
-        logger.info(`Browser Console [${sessionId}]: ${msg.text()}`);
-      });
-
-      // Enable error logging
-      page.on('pageerror', error => {
-        logger.error(`Browser Error [${sessionId}]: ${error.message}`);
-      });
+      this.attachLogging(sessionId, page);
 
       const session: BrowserSession = {
         sessionId,
         browser,
         context,
         page,
+        pages: [page],
         isRecording: false
       };
 
+      // Popups and tabs opened by the page share its context
+      context.on('page', (popup: Page) => {
+        this.attachLogging(sessionId, popup);
+        session.pages.push(popup);
+        popup.on('close', () => {
+          session.pages = session.pages.filter(open => open !== popup);
+        });
+      });
+
       this.sessions.set(sessionId, session);
       logger.info(`Created browser session: ${sessionId}`);
 
@@ -59,7 +70,114 @@ export class BrowserManager {
     }
   }
 
-  private async launchBrowser(browserType: 'chromium' | 'firefox' | 'webkit'): Promise<Browser> {
+  private attachLogging(sessionId: string, page: Page): void {
+    // Enable console logging
+    page.on('console', msg => {
+      logger.info(`Browser Console [${sessionId}]: ${msg.text()}`);
+    });
+
+    // Enable error logging
+    page.on('pageerror', error => {
+      logger.error(`Browser Error [${sessionId}]: ${error.message}`);
+    });
+  }
+
+  static isKnownDevice(device: string): boolean {
+    return device in devices;
+  }
+
+  // Problems with options that Playwright would only report once a context is created
+  static contextOptionsErrors(options: SessionContextOptions): string[] {
+    const errors: string[] = [];
+
+    if (options.device !== undefined && !BrowserManager.isKnownDevice(options.device)) {
+      errors.push(`Unknown device preset: ${options.device}`);
+    }
+    if (options.viewport && !(options.viewport.width > 0 && options.viewport.height > 0)) {
+      errors.push('viewport needs a positive width and height');
+    }
+    if (options.timezoneId !== undefined && !isTimeZone(options.timezoneId)) {
+      errors.push(`Unknown time zone: ${options.timezoneId}`);
+    }
+    if (options.locale !== undefined && !isLocale(options.locale)) {
+      errors.push(`Invalid locale: ${options.locale}`);
+    }
+    if (options.geolocation) {
+      const { latitude, longitude } = options.geolocation;
+      if (!(Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180)) {
+        errors.push('geolocation needs a latitude between -90 and 90 and a longitude between -180 and 180');
+      }
+    }
+    if (options.permissions && !options.permissions.every(permission => typeof permission === 'string')) {
+      errors.push('permissions must be a list of permission names');
+    }
+    if (options.colorScheme !== undefined && !['light', 'dark', 'no-preference'].includes(options.colorScheme)) {
+      errors.push(`Invalid color scheme: ${options.colorScheme}`);
+    }
+    if (options.reducedMotion !== undefined && !['reduce', 'no-preference'].includes(options.reducedMotion)) {
+      errors.push(`Invalid reduced motion: ${options.reducedMotion}`);
+    }
+
+    return errors;
+  }
+
+  // Locale, time zone and the rest apply on top of any device preset
+  private environmentOf(contextConfig: BrowserContextConfig): BrowserContextOptions {
+    const permissions = new Set(contextConfig.permissions);
+    // A geolocation is only readable by the page once it is granted
+    if (contextConfig.geolocation) permissions.add('geolocation');
+
+    return {
+      ...(contextConfig.locale && { locale: contextConfig.locale }),
+      ...(contextConfig.timezoneId && { timezoneId: contextConfig.timezoneId }),
+      ...(contextConfig.geolocation && { geolocation: contextConfig.geolocation }),
+      ...(permissions.size > 0 && { permissions: [...permissions] }),
+      ...(contextConfig.colorScheme && { colorScheme: contextConfig.colorScheme }),
+      ...(contextConfig.reducedMotion && { reducedMotion: contextConfig.reducedMotion }),
+      ...(contextConfig.offline !== undefined && { offline: contextConfig.offline })
+    };
+  }
+
+  private resolveEmulation(browserType: BrowserType, contextConfig: BrowserContextConfig): BrowserContextOptions {
+    if (contextConfig.device) {
+      const descriptor = devices[contextConfig.device];
+      if (!descriptor) {
+        throw new Error(`Unknown device preset: ${contextConfig.device}`);
+      }
+
+      // The preset's default browser is ignored, the matrix decides which browser runs
+      const emulation: BrowserContextOptions = { ...descriptor };
+      delete (emulation as Partial<typeof descriptor>).defaultBrowserType;
+      if (browserType === 'firefox' && emulation.isMobile) {
+        // Firefox does not support mobile emulation, keep the rest of the preset
+        logger.warn(`Device ${contextConfig.device} requests mobile emulation, which Firefox does not support`);
+        emulation.isMobile = false;
+      }
+
+      return contextConfig.viewport ? { ...emulation, viewport: contextConfig.viewport } : emulation;
+    }
+
+    return {
+      viewport: contextConfig.viewport || DEFAULT_VIEWPORT,
+      // The desktop Chrome user agent only makes sense for Chromium
+      ...(browserType === 'chromium' && { userAgent: DEFAULT_USER_AGENT })
+    };
+  }
+
+  // Launches the browser on first use; a failed launch is forgotten so the next session tries again
+  private browserFor(browserType: BrowserType): Promise<Browser> {
+    const running = this.browsers.get(browserType);
+    if (running) return running;
+
+    const launch = this.launchBrowser(browserType);
+    this.browsers.set(browserType, launch);
+    launch.catch(() => {
+      if (this.browsers.get(browserType) === launch) this.browsers.delete(browserType);
+    });
+    return launch;
+  }
+
+  private async launchBrowser(browserType: BrowserType): Promise<Browser> {
     const options = {
       headless: process.env.NODE_ENV === 'production',
       devtools: process.env.NODE_ENV === 'development',
@@ -111,8 +229,8 @@ export class BrowserManager {
     await Promise.all(closePromises);
 
     // Close all browsers
-    const browserClosePromises = Array.from(this.browsers.values()).map(browser => 
-      browser.close()
+    const browserClosePromises = Array.from(this.browsers.values()).map(launch =>
+      launch.then(browser => browser.close(), () => undefined)
     );
     await Promise.all(browserClosePromises);
 
@@ -129,4 +247,21 @@ export class BrowserManager {
   getAllSessions(): BrowserSession[] {
     return Array.from(this.sessions.values());
   }
-}
\ No newline at end of file
+}
+
+function isTimeZone(timezoneId: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,44 @@
 import { supabase } from '../config/supabase';
-import { TestSession, TestStep } from '../types';
+import { StepResult, TestExecution, TestSchedule, TestSession, TestStep } from '../types';
 import { logger } from '../utils/logger';
 
+// Rows as they are stored by supabase/migrations
+interface ExecutionRow {
+  id: string;
+  session_id: string;
+  test_name: string;
+  browser: TestExecution['browser'];
+  device: string | null;
+  viewport: TestExecution['viewport'] | null;
+  matrix_id: string | null;
+  mode: TestExecution['mode'];
+  status: TestExecution['status'];
+  summary: TestExecution['summary'];
+  spec_results: TestExecution['specResults'] | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  duration: number | null;
+}
+
+interface StepResultRow {
+  execution_id: string;
+  step_id: string;
+  step_index: number;
+  type: StepResult['type'];
+  description: string;
+  selector: string;
+  status: StepResult['status'];
+  healed_selector: string | null;
+  attempts: number;
+  duration: number;
+  error: string | null;
+  screenshot: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
 export class DatabaseService {
   async createSession(session: TestSession): Promise<void> {
     try {
@@ -124,9 +161,14 @@ export class DatabaseService {
           type: step.type,
           selector: step.selector,
           value: step.actionParams?.value || null,
+          action_params: step.actionParams || null,
           description: step.description,
           step_order: order,
           fallback_selectors: step.fallbackSelectors || null,
+          frame_selectors: step.frameSelectors || null,
+          page_alias: step.pageAlias || null,
+          popup_alias: step.popupAlias || null,
+          network: step.network || null,
           metadata: step.metadata || null,
           created_at: step.timestamp
         });
@@ -160,10 +202,15 @@ export class DatabaseService {
         id: row.id,
         type: row.type,
         selector: row.selector,
-        actionParams: row.value ? { value: row.value } : undefined,
+        // Rows written before action_params existed only kept the value
+        actionParams: row.action_params || (row.value ? { value: row.value } : undefined),
         description: row.description,
         timestamp: row.created_at,
         fallbackSelectors: row.fallback_selectors || undefined,
+        frameSelectors: row.frame_selectors || undefined,
+        pageAlias: row.page_alias || undefined,
+        popupAlias: row.popup_alias || undefined,
+        network: row.network || undefined,
         metadata: row.metadata || undefined
       }));
     } catch (error) {
@@ -177,9 +224,16 @@ export class DatabaseService {
       const updateData: any = {};
 
       if (updates.selector) updateData.selector = updates.selector;
-      if (updates.actionParams) updateData.value = updates.actionParams.value;
+      if (updates.actionParams) {
+        updateData.value = updates.actionParams['value'];
+        updateData.action_params = updates.actionParams;
+      }
       if (updates.description) updateData.description = updates.description;
       if (updates.fallbackSelectors) updateData.fallback_selectors = updates.fallbackSelectors;
+      if (updates.frameSelectors) updateData.frame_selectors = updates.frameSelectors;
+      if (updates.pageAlias) updateData.page_alias = updates.pageAlias;
+      if (updates.popupAlias) updateData.popup_alias = updates.popupAlias;
+      if (updates.network) updateData.network = updates.network;
       if (updates.metadata) updateData.metadata = updates.metadata;
 
       const { error } = await supabase
@@ -252,4 +306,311 @@ export class DatabaseService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async createExecution(execution: TestExecution): Promise<void> {
+    try {
+      const executionRow: ExecutionRow = {
+        id: execution.id,
+        session_id: execution.sessionId,
+        test_name: execution.testName,
+        browser: execution.browser,
+        device: execution.device || null,
+        viewport: execution.viewport || null,
+        matrix_id: execution.matrixId || null,
+        mode: execution.mode,
+        status: execution.status,
+        summary: execution.summary,
+        spec_results: execution.specResults || null,
+        error: execution.error || null,
+        created_at: execution.createdAt,
+        started_at: execution.startedAt || null,
+        finished_at: execution.finishedAt || null,
+        duration: execution.duration ?? null
+      };
+      const stepResultRows: StepResultRow[] = execution.stepResults.map(result => ({
+        execution_id: execution.id,
+        step_id: result.stepId,
+        step_index: result.stepIndex,
+        type: result.type,
+        description: result.description,
+        selector: result.selector,
+        status: result.status,
+        healed_selector: result.healedSelector || null,
+        attempts: result.attempts,
+        duration: result.duration,
+        error: result.error || null,
+        screenshot: result.screenshot || null,
+        started_at: result.startedAt || null,
+        finished_at: result.finishedAt || null
+      }));
+
+      // One call, so the run and its step results are saved in the same transaction
+      const { error } = await supabase.rpc('save_execution', {
+        p_execution: executionRow,
+        p_step_results: stepResultRows
+      });
+
+      if (error) {
+        logger.error('Error creating execution:', error);
+        throw error;
+      }
+
+      logger.info(`Execution saved in database: ${execution.id}`);
+    } catch (error) {
+      logger.error('Database error creating execution:', error);
+      throw error;
+    }
+  }
+
+  async getExecution(executionId: string): Promise<TestExecution | null> {
+    try {
+      const { data, error } = await supabase
+        .from('executions')
+        .select('*')
+        .eq('id', executionId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null; // Execution not found
+        }
+        logger.error('Error getting execution:', error);
+        throw error;
+      }
+
+      const stepResults = await this.getStepResults(executionId);
+      return this.mapExecutionRow(data as ExecutionRow, stepResults);
+    } catch (error) {
+      logger.error('Database error getting execution:', error);
+      throw error;
+    }
+  }
+
+  async getSessionExecutions(sessionId: string): Promise<TestExecution[]> {
+    try {
+      const { data, error } = await supabase
+        .from('executions')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error getting session executions:', error);
+        throw error;
+      }
+
+      return this.withStepResults(data as ExecutionRow[]);
+    } catch (error) {
+      logger.error('Database error getting session executions:', error);
+      throw error;
+    }
+  }
+
+  async getMatrixExecutions(matrixId: string): Promise<TestExecution[]> {
+    try {
+      const { data, error } = await supabase
+        .from('executions')
+        .select('*')
+        .eq('matrix_id', matrixId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting matrix executions:', error);
+        throw error;
+      }
+
+      return this.withStepResults(data as ExecutionRow[]);
+    } catch (error) {
+      logger.error('Database error getting matrix executions:', error);
+      throw error;
+    }
+  }
+
+  async getStepResults(executionId: string): Promise<StepResult[]> {
+    try {
+      const { data, error } = await supabase
+        .from('step_results')
+        .select('*')
+        .eq('execution_id', executionId)
+        .order('step_index', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting step results:', error);
+        throw error;
+      }
+
+      return (data as StepResultRow[]).map(row => this.mapStepResultRow(row));
+    } catch (error) {
+      logger.error('Database error getting step results:', error);
+      throw error;
+    }
+  }
+
+  // Step results of several runs in one query instead of one per run
+  private async withStepResults(rows: ExecutionRow[]): Promise<TestExecution[]> {
+    if (rows.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('step_results')
+      .select('*')
+      .in('execution_id', rows.map(row => row.id))
+      .order('step_index', { ascending: true });
+
+    if (error) {
+      logger.error('Error getting step results:', error);
+      throw error;
+    }
+
+    const resultsByExecution = new Map<string, StepResult[]>();
+    for (const row of data as StepResultRow[]) {
+      const results = resultsByExecution.get(row.execution_id) || [];
+      results.push(this.mapStepResultRow(row));
+      resultsByExecution.set(row.execution_id, results);
+    }
+
+    return rows.map(row => this.mapExecutionRow(row, resultsByExecution.get(row.id) || []));
+  }
+
+  async createSchedule(schedule: TestSchedule): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('schedules')
+        .insert({
+          id: schedule.id,
+          name: schedule.name,
+          cron: schedule.cron,
+          session_ids: schedule.sessionIds,
+          browsers: schedule.browsers,
+          mode: schedule.mode,
+          enabled: schedule.enabled,
+          last_run_at: schedule.lastRunAt || null,
+          last_execution_ids: schedule.lastExecutionIds,
+          created_at: schedule.createdAt,
+          updated_at: schedule.updatedAt
+        });
+
+      if (error) {
+        logger.error('Error creating schedule:', error);
+        throw error;
+      }
+
+      logger.info(`Schedule created in database: ${schedule.id}`);
+    } catch (error) {
+      logger.error('Database error creating schedule:', error);
+      throw error;
+    }
+  }
+
+  async getSchedules(): Promise<TestSchedule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('schedules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting schedules:', error);
+        throw error;
+      }
+
+      return data.map(row => ({
+        id: row.id,
+        name: row.name,
+        cron: row.cron,
+        sessionIds: row.session_ids || [],
+        browsers: row.browsers || [],
+        mode: row.mode,
+        enabled: row.enabled,
+        lastRunAt: row.last_run_at || undefined,
+        lastExecutionIds: row.last_execution_ids || [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      }));
+    } catch (error) {
+      logger.error('Database error getting schedules:', error);
+      throw error;
+    }
+  }
+
+  async updateSchedule(schedule: TestSchedule): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('schedules')
+        .update({
+          enabled: schedule.enabled,
+          last_run_at: schedule.lastRunAt || null,
+          last_execution_ids: schedule.lastExecutionIds,
+          updated_at: schedule.updatedAt
+        })
+        .eq('id', schedule.id);
+
+      if (error) {
+        logger.error('Error updating schedule:', error);
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Database error updating schedule:', error);
+      throw error;
+    }
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('schedules')
+        .delete()
+        .eq('id', scheduleId);
+
+      if (error) {
+        logger.error('Error deleting schedule:', error);
+        throw error;
+      }
+
+      logger.info(`Schedule deleted from database: ${scheduleId}`);
+    } catch (error) {
+      logger.error('Database error deleting schedule:', error);
+      throw error;
+    }
+  }
+
+  private mapStepResultRow(row: StepResultRow): StepResult {
+    return {
+      stepId: row.step_id,
+      stepIndex: row.step_index,
+      type: row.type,
+      description: row.description,
+      selector: row.selector,
+      status: row.status,
+      attempts: row.attempts,
+      duration: row.duration,
+      ...(row.healed_selector && { healedSelector: row.healed_selector }),
+      ...(row.error && { error: row.error }),
+      ...(row.screenshot && { screenshot: row.screenshot }),
+      ...(row.started_at && { startedAt: row.started_at }),
+      ...(row.finished_at && { finishedAt: row.finished_at })
+    };
+  }
+
+  private mapExecutionRow(row: ExecutionRow, stepResults: StepResult[]): TestExecution {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      testName: row.test_name,
+      browser: row.browser,
+      mode: row.mode,
+      status: row.status,
+      currentStepIndex: stepResults.length - 1,
+      stepResults,
+      summary: row.summary,
+      createdAt: row.created_at,
+      ...(row.device && { device: row.device }),
+      ...(row.viewport && { viewport: row.viewport }),
+      ...(row.matrix_id && { matrixId: row.matrix_id }),
+      ...(row.spec_results && { specResults: row.spec_results }),
+      ...(row.started_at && { startedAt: row.started_at }),
+      ...(row.finished_at && { finishedAt: row.finished_at }),
+      ...(row.duration !== null && { duration: row.duration }),
+      ...(row.error && { error: row.error })
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { ExecutionAbortedError, ExecutionPriority, ExecutionQueue } from './ExecutionQueue';
+
+// A job that runs until it is released or aborted, recording the order in which jobs start
+function blockingJob(id: string, priority: ExecutionPriority, started: string[], timeout = 60 * 1000) {
+  let release!: () => void;
+  let aborted!: (reason: unknown) => void;
+  const released = new Promise<void>(resolve => { release = resolve; });
+  const abortReason = new Promise<unknown>(resolve => { aborted = resolve; });
+
+  return {
+    release,
+    abortReason,
+    job: {
+      id,
+      priority,
+      timeout,
+      run: (signal: AbortSignal) => {
+        started.push(id);
+        signal.addEventListener('abort', () => aborted(signal.reason));
+        return Promise.race([released, abortReason.then(() => undefined)]);
+      }
+    }
+  };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ExecutionQueue', () => {
+  it('starts waiting jobs by priority, then in the order they were enqueued', async () => {
+    const queue = new ExecutionQueue(1);
+    const started: string[] = [];
+    const jobs = [
+      blockingJob('first', 'low', started),
+      blockingJob('low', 'low', started),
+      blockingJob('normal-1', 'normal', started),
+      blockingJob('high', 'high', started),
+      blockingJob('normal-2', 'normal', started)
+    ];
+
+    jobs.forEach(({ job }) => queue.enqueue(job));
+    expect(started).toEqual(['first']);
+    expect(queue.getPosition('high')).toBe(0);
+    expect(queue.getStats()).toEqual({ pending: 4, running: 1, concurrency: 1 });
+
+    // Finish whichever job is running so the next one starts
+    for (let i = 0; i < jobs.length; i++) {
+      jobs.find(({ job }) => job.id === started[i])?.release();
+      await settle();
+    }
+
+    expect(started).toEqual(['first', 'high', 'normal-1', 'normal-2', 'low']);
+    expect(queue.getStats()).toEqual({ pending: 0, running: 0, concurrency: 1 });
+  });
+
+  it('runs up to its concurrency at once', () => {
+    const queue = new ExecutionQueue(2);
+    const started: string[] = [];
+
+    ['a', 'b', 'c'].forEach(id => queue.enqueue(blockingJob(id, 'normal', started).job));
+
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStats()).toMatchObject({ pending: 1, running: 2 });
+    ['a', 'b', 'c'].forEach(id => queue.cancel(id));
+  });
+
+  describe('cancel', () => {
+    it('dequeues a waiting job without running it', async () => {
+      const queue = new ExecutionQueue(1);
+      const started: string[] = [];
+      const running = blockingJob('running', 'normal', started);
+
+      queue.enqueue(running.job);
+      queue.enqueue(blockingJob('waiting', 'normal', started).job);
+
+      expect(queue.cancel('waiting')).toBe('dequeued');
+      expect(queue.getPosition('waiting')).toBe(-1);
+
+      running.release();
+      await settle();
+      expect(started).toEqual(['running']);
+    });
+
+    it('aborts a running job and frees its slot', async () => {
+      const queue = new ExecutionQueue(1);
+      const started: string[] = [];
+      const running = blockingJob('running', 'normal', started);
+
+      queue.enqueue(running.job);
+      queue.enqueue(blockingJob('next', 'normal', started).job);
+
+      expect(queue.cancel('running')).toBe('aborted');
+      const reason = await running.abortReason;
+      expect(reason).toBeInstanceOf(ExecutionAbortedError);
+      expect(reason).toMatchObject({ reason: 'cancelled' });
+
+      await settle();
+      expect(started).toEqual(['running', 'next']);
+      queue.cancel('next');
+    });
+
+    it('reports jobs it does not know', () => {
+      expect(new ExecutionQueue(1).cancel('missing')).toBe('not-found');
+    });
+  });
+
+  it('aborts a job that runs longer than its timeout', async () => {
+    const queue = new ExecutionQueue(1);
+    const running = blockingJob('slow', 'normal', [], 10);
+
+    queue.enqueue(running.job);
+
+    const reason = await running.abortReason;
+    expect(reason).toBeInstanceOf(ExecutionAbortedError);
+    expect(reason).toMatchObject({ reason: 'timedOut', message: 'Execution timed out after 10ms' });
+
+    await settle();
+    expect(queue.getStats().running).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { logger } from '../utils/logger';
+
+export type ExecutionPriority = 'low' | 'normal' | 'high';
+
+export interface QueueJob {
+  id: string;
+  priority: ExecutionPriority;
+  timeout: number;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export class ExecutionAbortedError extends Error {
+  constructor(readonly reason: 'cancelled' | 'timedOut', message: string) {
+    super(message);
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+export type CancelResult = 'dequeued' | 'aborted' | 'not-found';
+
+interface QueuedJob extends QueueJob {
+  enqueuedAt: number;
+}
+
+const PRIORITY_WEIGHT: Record<ExecutionPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+export class ExecutionQueue {
+  private pending: QueuedJob[] = [];
+  private running: Map<string, AbortController> = new Map();
+
+  constructor(
+    private concurrency: number = Number(process.env['MAX_CONCURRENT_EXECUTIONS']) || 2,
+    readonly defaultTimeout: number = Number(process.env['EXECUTION_TIMEOUT_MS']) || 10 * 60 * 1000
+  ) {}
+
+  enqueue(job: QueueJob): void {
+    this.pending.push({ ...job, enqueuedAt: Date.now() });
+
+    // Higher priority first, then first come first served
+    this.pending.sort((a, b) =>
+      PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority] || a.enqueuedAt - b.enqueuedAt
+    );
+
+    logger.info(`Enqueued job ${job.id} (${job.priority} priority, ${this.pending.length} pending)`);
+    this.drain();
+  }
+
+  cancel(jobId: string): CancelResult {
+    const index = this.pending.findIndex(job => job.id === jobId);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      logger.info(`Removed job ${jobId} from the queue`);
+      return 'dequeued';
+    }
+
+    const controller = this.running.get(jobId);
+    if (controller) {
+      controller.abort(new ExecutionAbortedError('cancelled', 'Execution was cancelled'));
+      logger.info(`Aborted running job ${jobId}`);
+      return 'aborted';
+    }
+
+    return 'not-found';
+  }
+
+  getPosition(jobId: string): number {
+    return this.pending.findIndex(job => job.id === jobId);
+  }
+
+  getStats(): { pending: number; running: number; concurrency: number } {
+    return {
+      pending: this.pending.length,
+      running: this.running.size,
+      concurrency: this.concurrency
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.start(job);
+    }
+  }
+
+  private start(job: QueuedJob): void {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    const timer = setTimeout(() => {
+      controller.abort(new ExecutionAbortedError('timedOut', `Execution timed out after ${job.timeout}ms`));
+    }, job.timeout);
+
+    job.run(controller.signal)
+      .catch(error => {
+        logger.error(`Queued job ${job.id} failed:`, error);
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        this.running.delete(job.id);
+        this.drain();
+      });
+  }
+}
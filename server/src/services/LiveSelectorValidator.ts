@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FrameLocator, Page } from 'playwright';
+import {
+  BrowserType,
+  LiveValidationResult,
+  SelectorMatchReport,
+  StepSelectorReport,
+  TestSession,
+  TestStep,
+  ValidationIssue
+} from '../types';
+import { BrowserManager } from './BrowserManager';
+import { AuthProfileStore } from './AuthProfileStore';
+import { ExecutionAbortedError, ExecutionQueue } from './ExecutionQueue';
+import { SelfHealingEngine } from '../utils/SelfHealingEngine';
+import { StepReplayer } from '../utils/StepReplayer';
+import { SelectorIssueCollector } from '../utils/SelectorIssueCollector';
+import { logger } from '../utils/logger';
+
+const ELEMENT_STEP_TYPES: TestStep['type'][] = [
+  'click', 'fill', 'select', 'check', 'uncheck', 'hover', 'upload', 'drag', 'scroll', 'assertion'
+];
+
+export class LiveSelectorValidator {
+  private healingEngine = new SelfHealingEngine();
+  private replayer = new StepReplayer();
+  private issueCollector = new SelectorIssueCollector();
+
+  constructor(
+    private browserManager: BrowserManager,
+    private queue: ExecutionQueue = new ExecutionQueue(),
+    private authProfiles: AuthProfileStore = new AuthProfileStore(),
+    readonly timeout: number = Number(process.env['LIVE_VALIDATION_TIMEOUT_MS']) || 60 * 1000
+  ) {}
+
+  /**
+   * Waits for a free slot like any run and opens a browser context of its own. Someone is
+   * waiting for the response, so the wait for a slot and the validation itself are each
+   * limited to `timeout`, far below a run's. Aborting `signal`, e.g. when the client
+   * disconnects, drops the job from the queue or stops it.
+   */
+  validate(session: TestSession, signal?: AbortSignal): Promise<LiveValidationResult> {
+    const contextId = `validate_${uuidv4()}`;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ExecutionAbortedError('cancelled', 'Live validation was cancelled'));
+        return;
+      }
+
+      // Drops the job if it is still waiting for a slot, a running job is aborted through the queue instead
+      const drop = (error: Error): boolean => {
+        if (this.queue.getPosition(contextId) === -1) return false;
+
+        this.queue.cancel(contextId);
+        clearTimeout(waitTimer);
+        signal?.removeEventListener('abort', cancel);
+        reject(error);
+        return true;
+      };
+      const waitTimer = setTimeout(() => {
+        drop(new ExecutionAbortedError('timedOut', `No free slot for the live validation within ${this.timeout}ms`));
+      }, this.timeout);
+      const cancel = () => {
+        if (!drop(new ExecutionAbortedError('cancelled', 'Live validation was cancelled'))) this.queue.cancel(contextId);
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+
+      this.queue.enqueue({
+        id: contextId,
+        priority: 'high',
+        timeout: this.timeout,
+        run: async jobSignal => {
+          clearTimeout(waitTimer);
+
+          // Closing the context interrupts whatever is in flight
+          let interrupted: Promise<void> | null = null;
+          const interrupt = () => {
+            interrupted = this.browserManager.closeSession(contextId);
+          };
+          jobSignal.addEventListener('abort', interrupt, { once: true });
+
+          try {
+            resolve(await this.inspect(contextId, session));
+          } catch (error) {
+            reject(jobSignal.aborted ? jobSignal.reason : error);
+          } finally {
+            jobSignal.removeEventListener('abort', interrupt);
+            signal?.removeEventListener('abort', cancel);
+            // Waits for an interrupting close to finish; a context created after it still needs closing
+            await interrupted;
+            await this.browserManager.closeSession(contextId);
+          }
+        }
+      });
+    });
+  }
+
+  private async inspect(contextId: string, session: TestSession): Promise<LiveValidationResult> {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const selectors: StepSelectorReport[] = [];
+
+    const browserSession = await this.browserManager.createSession(
+      contextId,
+      (session.metadata.browser as BrowserType) || 'chromium',
+      {
+        ...session.settings.contextOptions,
+        ...(session.metadata.authProfile && {
+          storageState: await this.authProfiles.resolveState(session.metadata.authProfile)
+        })
+      },
+      // Nothing of a validation is kept, so there is no video or HAR to clean up
+      null
+    );
+    const page: Page = browserSession.page;
+    const popups = new Map<string, Page>();
+
+    // Steps recorded before the first navigation still expect the target page
+    if (session.steps[0]?.type !== 'navigate') {
+      await page.goto(session.targetUrl, { timeout: session.settings.waitTimeout });
+    }
+
+    for (let index = 0; index < session.steps.length; index++) {
+      const step = session.steps[index]!;
+
+      // A step on a popup that never opened is reported by its replay below
+      const stepPage = step.pageAlias ? popups.get(step.pageAlias) : page;
+
+      if (ELEMENT_STEP_TYPES.includes(step.type) && step.selector && stepPage) {
+        const report = await this.inspectStep(stepPage, step, index);
+        selectors.push(report);
+        this.issueCollector.collectIssues(report, errors, warnings);
+      }
+
+      try {
+        await this.replayer.replay(page, step, session.settings, popups);
+      } catch (error) {
+        const message = (error as Error).message;
+        const report = selectors.find(entry => entry.stepId === step.id);
+        if (report) report.replayError = message;
+
+        errors.push({
+          code: 'replay-failed',
+          message: `Step ${index + 1} could not be replayed, later selectors were not checked: ${message}`,
+          stepId: step.id,
+          stepIndex: index
+        });
+        break;
+      }
+    }
+
+    logger.info(`Live selector validation for session ${session.id}: ${errors.length} errors, ${warnings.length} warnings`);
+    return { isValid: errors.length === 0, errors, warnings, selectors };
+  }
+
+  private async inspectStep(page: Page, step: TestStep, index: number): Promise<StepSelectorReport> {
+    const scope = this.replayer.scopeOf(page, step);
+    const primary = await this.countSelector(scope, step.selector);
+    const fallbacks: SelectorMatchReport[] = [];
+
+    for (const fallback of step.fallbackSelectors || []) {
+      fallbacks.push(await this.countSelector(scope, fallback));
+    }
+
+    return { stepId: step.id, stepIndex: index, primary, fallbacks };
+  }
+
+  private async countSelector(page: Page | FrameLocator, selector: string): Promise<SelectorMatchReport> {
+    try {
+      return { selector, matches: await this.healingEngine.countMatches(selector, page) };
+    } catch (error) {
+      return { selector, matches: 0, error: (error as Error).message };
+    }
+  }
+}
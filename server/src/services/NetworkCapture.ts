@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BrowserContext, Page, Request, Response } from 'playwright';
+import { NetworkExchange } from '../types';
+import { logger } from '../utils/logger';
+
+const CAPTURED_RESOURCE_TYPES = ['xhr', 'fetch'];
+// Larger bodies are left out, they would bloat the step and the generated test
+const MAX_BODY_SIZE = 256 * 1024;
+const TEXT_CONTENT_TYPE = /^(text\/|application\/([\w.+-]+\+)?(json|xml|javascript|x-www-form-urlencoded))/i;
+
+export type ExchangeListener = (exchange: NetworkExchange, page: Page | null) => void;
+
+/**
+ * Captures the XHR and fetch traffic of a recording, with enough of each response to mock
+ * it in a generated test. The context's HAR keeps the complete record of the session.
+ */
+export class NetworkCapture {
+  attach(context: BrowserContext, listener: ExchangeListener): void {
+    context.on('requestfinished', request => {
+      if (!CAPTURED_RESOURCE_TYPES.includes(request.resourceType())) return;
+
+      this.capture(request)
+        .then(exchange => {
+          if (exchange) listener(exchange, this.pageOf(request));
+        })
+        .catch(error => {
+          logger.debug(`Could not capture ${request.method()} ${request.url()}: ${(error as Error).message}`);
+        });
+    });
+  }
+
+  private async capture(request: Request): Promise<NetworkExchange | null> {
+    const response = await request.response();
+    if (!response) return null;
+
+    const timing = request.timing();
+    const headers = await response.allHeaders();
+    const contentType = headers['content-type'];
+    const requestBody = request.postData();
+
+    const exchange: NetworkExchange = {
+      id: uuidv4(),
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType() as NetworkExchange['resourceType'],
+      status: response.status(),
+      startedAt: Math.round(timing.startTime),
+      // Timings are relative to the start, and -1 when the browser did not report them
+      duration: Math.max(0, Math.round(timing.responseEnd))
+    };
+
+    if (requestBody !== null) exchange.requestBody = requestBody;
+    if (contentType) exchange.contentType = contentType;
+
+    const responseBody = await this.readBody(response, contentType);
+    if (responseBody !== undefined) exchange.responseBody = responseBody;
+
+    return exchange;
+  }
+
+  private async readBody(response: Response, contentType: string | undefined): Promise<string | undefined> {
+    if (!contentType || !TEXT_CONTENT_TYPE.test(contentType)) return undefined;
+
+    const body = await response.body();
+    return body.length <= MAX_BODY_SIZE ? body.toString('utf8') : undefined;
+  }
+
+  // Requests made by service workers belong to no page
+  private pageOf(request: Request): Page | null {
+    try {
+      return request.frame().page();
+    } catch {
+      return null;
+    }
+  }
+}
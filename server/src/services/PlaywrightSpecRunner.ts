@@ -0,0 +1,174 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BrowserType, MatrixTarget, SpecTestResult, TestSession } from '../types';
+import { PlaywrightCodeGenerator } from '../utils/PlaywrightCodeGenerator';
+import { SpecReportParser } from '../utils/SpecReportParser';
+import { logger } from '../utils/logger';
+import { runnerEnv } from '../utils/secrets';
+
+export interface SpecRunResult {
+  status: 'passed' | 'failed' | 'error';
+  tests: SpecTestResult[];
+  duration: number;
+  error?: string;
+}
+
+interface ProcessResult {
+  exitCode: number | null;
+  output: string;
+  aborted: boolean;
+}
+
+const MAX_OUTPUT_LENGTH = 20000;
+// How long a cancelled run gets to shut down before its processes are killed
+const KILL_GRACE_MS = 5000;
+
+export class PlaywrightSpecRunner {
+  private codeGenerator = new PlaywrightCodeGenerator();
+  private reportParser = new SpecReportParser();
+
+  async run(
+    session: TestSession,
+    target: MatrixTarget,
+    signal?: AbortSignal,
+    artifactsDir?: string
+  ): Promise<SpecRunResult> {
+    const startTime = Date.now();
+    const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'playwright-spec-'));
+
+    try {
+      await this.writeProject(projectDir, session, target);
+
+      const processResult = await this.runPlaywright(projectDir, signal);
+      const tests = await this.readResults(projectDir, target.browser);
+      if (artifactsDir) {
+        await this.copyArtifacts(projectDir, artifactsDir);
+      }
+
+      if (processResult.aborted) {
+        return { status: 'error', tests, duration: Date.now() - startTime, error: 'Spec run was aborted' };
+      }
+
+      if (tests.length === 0) {
+        return {
+          status: 'error',
+          tests,
+          duration: Date.now() - startTime,
+          error: `Playwright exited with code ${processResult.exitCode} without reporting results:\n${processResult.output.slice(-2000)}`
+        };
+      }
+
+      const failed = tests.some(test => test.status !== 'passed' && test.status !== 'skipped');
+      return { status: failed ? 'failed' : 'passed', tests, duration: Date.now() - startTime };
+    } finally {
+      await fs.rm(projectDir, { recursive: true, force: true }).catch(error => {
+        logger.warn(`Failed to remove spec project ${projectDir}: ${error}`);
+      });
+    }
+  }
+
+  private async writeProject(projectDir: string, session: TestSession, target: MatrixTarget): Promise<void> {
+    // Test names are free text, anything beyond a plain file name could point outside the project
+    const filename = `${session.testName.toLowerCase().replace(/[^a-z0-9_-]+/g, '-')}.spec.ts`;
+
+    await fs.mkdir(path.join(projectDir, 'tests'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectDir, 'tests', filename),
+      // The project carries the context options, a test.use() block would override the matrix cell's device
+      this.codeGenerator.generatePlaywrightTest({ ...session, settings: { ...session.settings, contextOptions: {} } })
+    );
+    await fs.writeFile(
+      path.join(projectDir, 'playwright.config.ts'),
+      this.codeGenerator.generatePlaywrightConfig({ projects: [target], webServer: false, recordArtifacts: true })
+    );
+    await fs.writeFile(
+      path.join(projectDir, 'package.json'),
+      this.codeGenerator.generatePackageJson(session.testName)
+    );
+
+    // Resolve @playwright/test from the server's own dependencies
+    const nodeModulesDir = path.resolve(path.dirname(require.resolve('@playwright/test/package.json')), '..', '..');
+    await fs.symlink(nodeModulesDir, path.join(projectDir, 'node_modules'), 'dir');
+  }
+
+  private runPlaywright(projectDir: string, signal?: AbortSignal): Promise<ProcessResult> {
+    return new Promise((resolve, reject) => {
+      let output = '';
+      let aborted = false;
+
+      const child = spawn(process.execPath, [require.resolve('@playwright/test/cli'), 'test'], {
+        cwd: projectDir,
+        // Own process group, so a cancel reaches the workers and browsers the runner starts
+        detached: true,
+        // The spec runs code generated from recorded pages, it gets no server credentials
+        env: { ...runnerEnv(), FORCE_COLOR: '0', PW_TEST_HTML_REPORT_OPEN: 'never' }
+      });
+
+      const appendOutput = (chunk: Buffer) => {
+        output = (output + chunk.toString()).slice(-MAX_OUTPUT_LENGTH);
+      };
+      child.stdout.on('data', appendOutput);
+      child.stderr.on('data', appendOutput);
+
+      const killGroup = (killSignal: NodeJS.Signals) => {
+        if (child.pid === undefined) return;
+        try {
+          process.kill(-child.pid, killSignal);
+        } catch {
+          // The whole group has exited already
+        }
+      };
+
+      // SIGTERM lets the runner close its workers and browsers, whatever is left after the grace period is killed
+      let killTimer: NodeJS.Timeout | undefined;
+      const abort = () => {
+        aborted = true;
+        killGroup('SIGTERM');
+        killTimer = setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+
+      child.on('error', error => {
+        signal?.removeEventListener('abort', abort);
+        clearTimeout(killTimer);
+        reject(error);
+      });
+
+      child.on('close', exitCode => {
+        signal?.removeEventListener('abort', abort);
+        clearTimeout(killTimer);
+        // Workers that outlived the runner
+        if (aborted) killGroup('SIGKILL');
+        resolve({ exitCode, output, aborted });
+      });
+    });
+  }
+
+  private async copyArtifacts(projectDir: string, artifactsDir: string): Promise<void> {
+    try {
+      // Traces, videos and screenshots land in Playwright's default output folder
+      await fs.cp(path.join(projectDir, 'test-results'), artifactsDir, { recursive: true });
+    } catch (error) {
+      logger.warn(`No spec artifacts copied from ${projectDir}: ${(error as Error).message}`);
+    }
+  }
+
+  private async readResults(projectDir: string, browser: BrowserType): Promise<SpecTestResult[]> {
+    try {
+      const json = await fs.readFile(path.join(projectDir, 'test-results.json'), 'utf-8');
+      return this.reportParser.parseJson(JSON.parse(json));
+    } catch (error) {
+      logger.warn(`JSON report unavailable, falling back to JUnit: ${(error as Error).message}`);
+    }
+
+    try {
+      const xml = await fs.readFile(path.join(projectDir, 'results.xml'), 'utf-8');
+      return this.reportParser.parseJUnit(xml, browser);
+    } catch (error) {
+      logger.warn(`JUnit report unavailable: ${(error as Error).message}`);
+      return [];
+    }
+  }
+}
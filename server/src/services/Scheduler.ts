@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CreateScheduleRequest, TestSchedule } from '../types';
+import { SessionManager } from './SessionManager';
+import { TestExecutor } from './TestExecutor';
+import { DatabaseService } from './DatabaseService';
+import { CronExpression } from '../utils/CronExpression';
+import { logger } from '../utils/logger';
+
+// setTimeout overflows above 2^31 - 1 ms, longer waits are re-armed in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export class Scheduler {
+  private schedules: Map<string, TestSchedule> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private db = new DatabaseService();
+
+  constructor(
+    private sessionManager: SessionManager,
+    private testExecutor: TestExecutor
+  ) {}
+
+  async start(): Promise<void> {
+    const schedules = await this.db.getSchedules();
+
+    for (const schedule of schedules) {
+      this.schedules.set(schedule.id, schedule);
+      this.arm(schedule);
+    }
+
+    logger.info(`Scheduler started with ${schedules.length} schedules`);
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  async createSchedule(request: CreateScheduleRequest): Promise<TestSchedule> {
+    // Throws on an invalid expression before anything is stored
+    new CronExpression(request.cron);
+
+    const now = new Date().toISOString();
+    const schedule: TestSchedule = {
+      id: uuidv4(),
+      name: request.name,
+      cron: request.cron,
+      sessionIds: request.sessionIds,
+      browsers: request.browsers || [],
+      mode: request.mode || 'replay',
+      enabled: request.enabled ?? true,
+      lastExecutionIds: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.db.createSchedule(schedule);
+    this.schedules.set(schedule.id, schedule);
+    this.arm(schedule);
+
+    logger.info(`Created schedule ${schedule.id} (${schedule.cron}) for ${schedule.sessionIds.length} sessions`);
+    return schedule;
+  }
+
+  getSchedules(): TestSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  getSchedule(scheduleId: string): TestSchedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  async setEnabled(scheduleId: string, enabled: boolean): Promise<TestSchedule | undefined> {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return undefined;
+
+    schedule.enabled = enabled;
+    schedule.updatedAt = new Date().toISOString();
+    await this.db.updateSchedule(schedule);
+    this.arm(schedule);
+
+    logger.info(`${enabled ? 'Resumed' : 'Paused'} schedule ${scheduleId}`);
+    return schedule;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return false;
+
+    await this.db.deleteSchedule(scheduleId);
+    this.disarm(schedule);
+    this.schedules.delete(scheduleId);
+
+    logger.info(`Deleted schedule ${scheduleId}`);
+    return true;
+  }
+
+  private arm(schedule: TestSchedule): void {
+    this.disarm(schedule);
+    if (!schedule.enabled) return;
+
+    let nextRun: Date;
+    try {
+      nextRun = new CronExpression(schedule.cron).next();
+    } catch (error) {
+      logger.error(`Schedule ${schedule.id} cannot be armed:`, error);
+      return;
+    }
+
+    schedule.nextRunAt = nextRun.toISOString();
+    const delay = nextRun.getTime() - Date.now();
+
+    const timer = delay > MAX_TIMER_DELAY
+      ? setTimeout(() => this.arm(schedule), MAX_TIMER_DELAY)
+      : setTimeout(() => {
+        this.fire(schedule).catch(error => {
+          logger.error(`Schedule ${schedule.id} failed to fire:`, error);
+        });
+      }, delay);
+    this.timers.set(schedule.id, timer);
+  }
+
+  private disarm(schedule: TestSchedule): void {
+    const timer = this.timers.get(schedule.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(schedule.id);
+    }
+    delete schedule.nextRunAt;
+  }
+
+  private async fire(schedule: TestSchedule): Promise<void> {
+    this.timers.delete(schedule.id);
+    const executionIds: string[] = [];
+
+    try {
+      for (const sessionId of schedule.sessionIds) {
+        const session = await this.sessionManager.getSessionAsync(sessionId);
+        if (!session) {
+          logger.warn(`Schedule ${schedule.id} skipped missing session ${sessionId}`);
+          continue;
+        }
+
+        // Scheduled runs yield to runs started by hand
+        const options = { mode: schedule.mode, priority: 'low' as const };
+
+        if (schedule.browsers.length > 0) {
+          const matrix = this.testExecutor.startMatrix(
+            session,
+            schedule.browsers.map(browser => ({ browser })),
+            options
+          );
+          executionIds.push(...matrix.cells.map(cell => cell.executionId));
+        } else {
+          executionIds.push(this.testExecutor.startExecution(session, options).id);
+        }
+      }
+
+      schedule.lastRunAt = new Date().toISOString();
+      schedule.lastExecutionIds = executionIds;
+      schedule.updatedAt = schedule.lastRunAt;
+      logger.info(`Schedule ${schedule.id} queued ${executionIds.length} executions`);
+
+      await this.db.updateSchedule(schedule);
+    } finally {
+      // A deleted schedule must not come back
+      if (this.schedules.has(schedule.id)) {
+        this.arm(schedule);
+      }
+    }
+  }
+}
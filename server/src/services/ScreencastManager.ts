@@ -0,0 +1,217 @@
+import { BrowserContext, Page } from 'playwright';
+import { BrowserManager } from './BrowserManager';
+import { BrowserSession, ScreencastFrame, ScreencastInput } from '../types';
+import { logger } from '../utils/logger';
+
+const FRAME_QUALITY = 60;
+// Frames are scaled down to fit, a full HD viewport would cost several megabytes a second
+const MAX_FRAME_WIDTH = 1280;
+const MAX_FRAME_HEIGHT = 720;
+// Firefox and WebKit have no screencast, their live view is refreshed with screenshots
+const SCREENSHOT_INTERVAL_MS = 500;
+
+export type FrameListener = (frame: ScreencastFrame) => void;
+
+interface Screencast {
+  listener: FrameListener;
+  onEnded: () => void;
+  page: Page | null;
+  stopPage: (() => Promise<void>) | null;
+  followPage: (page: Page) => void;
+  // Input is played back in the order it was sent, a click must not overtake the move before it
+  inputQueue: Promise<void>;
+}
+
+/**
+ * Streams the page of a recording session as JPEG frames and plays input from the live view
+ * back into it, so recording works without a browser window on the server. Chromium pushes
+ * frames through a CDP screencast; other browsers are polled with screenshots.
+ *
+ * The stream follows the most recently opened page: a popup is shown as soon as it opens and
+ * the view goes back to its opener when it closes.
+ */
+export class ScreencastManager {
+  private screencasts: Map<string, Screencast> = new Map();
+
+  constructor(private browserManager: BrowserManager) {}
+
+  async start(sessionId: string, listener: FrameListener, onEnded: () => void): Promise<void> {
+    if (this.screencasts.has(sessionId)) return;
+
+    const browserSession = this.browserManager.getSession(sessionId);
+    if (!browserSession) {
+      throw new Error(`Browser session not found: ${sessionId}`);
+    }
+
+    const screencast: Screencast = {
+      listener,
+      onEnded,
+      page: null,
+      stopPage: null,
+      followPage: page => this.show(sessionId, page),
+      inputQueue: Promise.resolve()
+    };
+    this.screencasts.set(sessionId, screencast);
+
+    const context: BrowserContext = browserSession.context;
+    context.on('page', screencast.followPage);
+    await this.switchTo(sessionId, this.activePage(browserSession));
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    const screencast = this.screencasts.get(sessionId);
+    if (!screencast) return;
+
+    this.screencasts.delete(sessionId);
+    this.browserManager.getSession(sessionId)?.context.off('page', screencast.followPage);
+    await screencast.stopPage?.();
+    screencast.stopPage = null;
+    screencast.page = null;
+  }
+
+  input(sessionId: string, input: ScreencastInput): Promise<void> {
+    const screencast = this.screencasts.get(sessionId);
+    if (!screencast) {
+      return Promise.reject(new Error(`No live view for session: ${sessionId}`));
+    }
+
+    const next = screencast.inputQueue.then(async () => {
+      if (screencast.page) await this.dispatch(screencast.page, input);
+    });
+    screencast.inputQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async dispatch(page: Page, input: ScreencastInput): Promise<void> {
+    switch (input.type) {
+      case 'mousemove':
+        await page.mouse.move(input.x, input.y);
+        break;
+      case 'mousedown':
+      case 'mouseup': {
+        const options = { button: input.button || 'left', clickCount: input.clickCount || 1 } as const;
+        await page.mouse.move(input.x, input.y);
+        await (input.type === 'mousedown' ? page.mouse.down(options) : page.mouse.up(options));
+        break;
+      }
+      case 'wheel':
+        await page.mouse.move(input.x, input.y);
+        await page.mouse.wheel(input.deltaX, input.deltaY);
+        break;
+      case 'keydown':
+      case 'keyup':
+        await this.dispatchKey(page, input.type, input.key);
+        break;
+    }
+  }
+
+  // Key values come from the viewer's keyboard layout; characters Playwright has no key for are typed as text
+  private async dispatchKey(page: Page, type: 'keydown' | 'keyup', key: string): Promise<void> {
+    try {
+      await (type === 'keydown' ? page.keyboard.down(key) : page.keyboard.up(key));
+    } catch (error) {
+      if (type === 'keydown' && [...key].length === 1) {
+        await page.keyboard.insertText(key);
+      } else {
+        logger.debug(`Ignored ${type} of ${key}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private show(sessionId: string, page: Page | null): void {
+    this.switchTo(sessionId, page).catch(error => {
+      logger.error(`Failed to stream page of session ${sessionId}:`, error);
+    });
+  }
+
+  private async switchTo(sessionId: string, page: Page | null): Promise<void> {
+    const screencast = this.screencasts.get(sessionId);
+    if (!screencast) return;
+
+    await screencast.stopPage?.();
+    screencast.stopPage = null;
+    screencast.page = page;
+
+    if (!page) {
+      // Every page of the session is closed, e.g. the session was deleted
+      await this.stop(sessionId);
+      screencast.onEnded();
+      return;
+    }
+
+    const emit = (data: string, width: number, height: number) => {
+      screencast.listener({ sessionId, data, width, height, url: page.url() });
+    };
+    const stopFrames = page.context().browser()?.browserType().name() === 'chromium'
+      ? await this.castPage(page, emit)
+      : this.pollPage(page, emit);
+
+    const onClose = () => {
+      if (screencast.page === page) {
+        this.show(sessionId, this.activePage(this.browserManager.getSession(sessionId)));
+      }
+    };
+    page.on('close', onClose);
+
+    const stopPage = async () => {
+      page.off('close', onClose);
+      await stopFrames();
+    };
+
+    // Stopped or moved on to another page while this one was starting
+    if (this.screencasts.get(sessionId) !== screencast || screencast.page !== page) {
+      await stopPage();
+      return;
+    }
+    screencast.stopPage = stopPage;
+  }
+
+  private activePage(browserSession: BrowserSession | undefined): Page | null {
+    const pages: Page[] = (browserSession?.pages || []).filter((page: Page) => !page.isClosed());
+    return pages[pages.length - 1] || null;
+  }
+
+  private async castPage(page: Page, emit: (data: string, width: number, height: number) => void): Promise<() => Promise<void>> {
+    const cdp = await page.context().newCDPSession(page);
+
+    cdp.on('Page.screencastFrame', ({ data, metadata, sessionId }) => {
+      emit(data, metadata.deviceWidth, metadata.deviceHeight);
+      // The browser sends the next frame once this one is acknowledged
+      cdp.send('Page.screencastFrameAck', { sessionId }).catch(() => undefined);
+    });
+    await cdp.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: FRAME_QUALITY,
+      maxWidth: MAX_FRAME_WIDTH,
+      maxHeight: MAX_FRAME_HEIGHT
+    });
+
+    return async () => {
+      // Both fail once the page is closed, which ends the screencast anyway
+      await cdp.send('Page.stopScreencast').catch(() => undefined);
+      await cdp.detach().catch(() => undefined);
+    };
+  }
+
+  private pollPage(page: Page, emit: (data: string, width: number, height: number) => void): () => Promise<void> {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const capture = async () => {
+      try {
+        const viewport = page.viewportSize();
+        const screenshot = await page.screenshot({ type: 'jpeg', quality: FRAME_QUALITY, scale: 'css' });
+        if (!stopped && viewport) emit(screenshot.toString('base64'), viewport.width, viewport.height);
+      } catch (error) {
+        logger.debug(`Live view screenshot failed: ${(error as Error).message}`);
+      }
+      if (!stopped) timer = setTimeout(capture, SCREENSHOT_INTERVAL_MS);
+    };
+    void capture();
+
+    return async () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+}
@@ -1,21 +1,95 @@
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { TestSession, TestStep, SessionSettings, HealingStrategy } from '../types';
+import { BrowserContext, Frame, Page } from 'playwright';
+import {
+  TestSession,
+  TestStep,
+  SessionSettings,
+  HealingStrategy,
+  BrowserSession,
+  BrowserType,
+  RecorderEvent,
+  RecorderFrameInfo,
+  RecorderToolbarState,
+  NetworkExchange,
+  NetworkUsage,
+  AuthProfile,
+  BrowserContextConfig,
+  BrowserAction,
+  BrowserActionResult
+} from '../types';
 import { BrowserManager } from './BrowserManager';
 import { DatabaseService } from './DatabaseService';
+import { NetworkCapture } from './NetworkCapture';
+import { AuthProfileStore } from './AuthProfileStore';
 import { logger } from '../utils/logger';
 import { PlaywrightCodeGenerator } from '../utils/PlaywrightCodeGenerator';
 import { SelfHealingEngine } from '../utils/SelfHealingEngine';
+import {
+  buildRecorderScript,
+  RECORDER_BINDING,
+  RECORDER_CONTROL,
+  RECORDER_DESCRIBE,
+  RECORDER_FLUSH,
+  RECORDER_SECRET_NAME,
+  RECORDER_STATE,
+  RecorderControlCommand
+} from '../recorder/recorderScript';
 
-export class SessionManager {
+const MAIN_PAGE_ALIAS = 'page';
+// How long a new popup waits for the click that opened it to reach the recording queue
+const POPUP_LINK_DELAY_MS = 250;
+// Requests that start later than this after the last step are not attributed to it, e.g. polling
+const NETWORK_ATTACH_WINDOW_MS = 5000;
+// Remote actions whose recorder events are still expected, e.g. a fill sent when the field loses focus
+const MAX_REMOTE_ACTION_WINDOWS = 50;
+
+// When a browser action sent by the app ran, the recorder leaves alone what happened in between
+interface RemoteActionWindow {
+  start: number;
+  end: number;
+  navigation: boolean;
+}
+
+// Where a recorded event happened
+interface EventOrigin {
+  frame: RecorderFrameInfo;
+  frameSelectors: string[];
+  pageAlias: string;
+}
+
+export class SessionManager extends EventEmitter {
   private activeSessions: Map<string, TestSession> = new Map();
+  private instrumentedSessions: Set<string> = new Set();
+  private recordingQueues: Map<string, Promise<void>> = new Map();
+  private eventSequences: Map<string, number> = new Map();
+  private pausedAt: Map<string, number> = new Map();
+  private pageAliases: Map<string, Map<Page, string>> = new Map();
+  // Values typed into sensitive fields, by secret name; only kept in memory to redact captured requests
+  private secretValues: Map<string, Map<string, string>> = new Map();
+  private remoteActions: Map<string, RemoteActionWindow[]> = new Map();
   private db = new DatabaseService();
   private codeGenerator = new PlaywrightCodeGenerator();
   private healingEngine = new SelfHealingEngine();
+  private networkCapture = new NetworkCapture();
 
-  constructor(private browserManager: BrowserManager) {}
+  constructor(
+    private browserManager: BrowserManager,
+    private authProfiles: AuthProfileStore = new AuthProfileStore()
+  ) {
+    super();
+  }
 
-  async createSession(testName: string, targetUrl: string, settings?: Partial<SessionSettings>): Promise<TestSession> {
+  async createSession(
+    testName: string,
+    targetUrl: string,
+    settings?: Partial<SessionSettings>,
+    browser: BrowserType = 'chromium',
+    authProfile?: string
+  ): Promise<TestSession> {
     const sessionId = uuidv4();
+    const contextConfig: BrowserContextConfig = { ...settings?.contextOptions };
+    if (authProfile) contextConfig.storageState = await this.authProfiles.resolveState(authProfile);
     
     const defaultSettings: SessionSettings = {
       healingStrategies: [
@@ -31,6 +105,10 @@ export class SessionManager {
       assertionStrictness: 'loose'
     };
 
+    // Create browser session
+    const browserSession = await this.browserManager.createSession(sessionId, browser, contextConfig);
+    const page: Page = browserSession.page;
+
     const session: TestSession = {
       id: sessionId,
       testName,
@@ -41,15 +119,14 @@ export class SessionManager {
       updatedAt: new Date().toISOString(),
       settings: { ...defaultSettings, ...settings },
       metadata: {
-        viewport: { width: 1920, height: 1080 },
-        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        browser: 'chromium'
+        // What the context ended up with once the device preset and defaults are applied
+        viewport: page.viewportSize() || { width: 0, height: 0 },
+        userAgent: await page.evaluate<string>('navigator.userAgent'),
+        browser,
+        ...(authProfile && { authProfile })
       }
     };
 
-    // Create browser session
-    await this.browserManager.createSession(sessionId);
-
     // Store in memory and database
     this.activeSessions.set(sessionId, session);
     await this.db.createSession(session);
@@ -69,17 +146,21 @@ export class SessionManager {
       throw new Error(`Browser session not found: ${sessionId}`);
     }
 
+    // The bridge has to exist before the first navigation so the target page is instrumented
+    if (!this.instrumentedSessions.has(sessionId)) {
+      await this.setupRecordingListeners(sessionId, browserSession);
+      this.instrumentedSessions.add(sessionId);
+    }
+
     // Navigate to target URL
     await browserSession.page.goto(session.targetUrl);
 
     // Start recording
     browserSession.isRecording = true;
+    await this.syncToolbar(sessionId, browserSession);
     session.status = 'recording';
     session.updatedAt = new Date().toISOString();
 
-    // Set up event listeners for recording
-    await this.setupRecordingListeners(sessionId, browserSession.page);
-
     // Update in storage
     this.activeSessions.set(sessionId, session);
     await this.db.updateSession(sessionId, { status: 'recording', updatedAt: session.updatedAt });
@@ -87,89 +168,237 @@ export class SessionManager {
     logger.info(`Started recording for session: ${sessionId}`);
   }
 
-  private async setupRecordingListeners(sessionId: string, page: any): Promise<void> {
-    // Listen for navigation events
-    page.on('framenavigated', async (frame: any) => {
-      if (frame === page.mainFrame()) {
-        await this.addStep(sessionId, {
+  async resumeRecording(sessionId: string): Promise<void> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const browserSession = this.browserManager.getSession(sessionId);
+    if (!browserSession || !this.instrumentedSessions.has(sessionId)) {
+      throw new Error(`Recording was not started for session: ${sessionId}`);
+    }
+
+    browserSession.isRecording = true;
+    this.pausedAt.delete(sessionId);
+    await this.syncToolbar(sessionId, browserSession);
+    session.status = 'recording';
+    session.updatedAt = new Date().toISOString();
+
+    this.activeSessions.set(sessionId, session);
+    await this.db.updateSession(sessionId, { status: 'recording', updatedAt: session.updatedAt });
+
+    logger.info(`Resumed recording for session: ${sessionId}`);
+  }
+
+  private async setupRecordingListeners(sessionId: string, browserSession: BrowserSession): Promise<void> {
+    const context: BrowserContext = browserSession.context;
+    const page: Page = browserSession.page;
+
+    this.pageAliases.set(sessionId, new Map([[page, MAIN_PAGE_ALIAS]]));
+
+    // Bindings on the context reach every frame of every page and are re-installed after each navigation
+    await context.exposeBinding(RECORDER_BINDING, (source: { page: Page; frame: Frame }, event: RecorderEvent) => {
+      if (!browserSession.isRecording && !this.startedBeforePause(sessionId, event)) {
+        logger.debug(`Dropped ${event.eventType} event for session ${sessionId} while not recording`);
+        return;
+      }
+      if (this.duringRemoteAction(sessionId, event.startedAt ?? event.timestamp)) {
+        logger.debug(`Dropped ${event.eventType} event for session ${sessionId} caused by a browser action`);
+        return;
+      }
+
+      const sequence = this.nextSequence(sessionId);
+      const frame = this.describeFrame(source.frame);
+      const pageAlias = this.pageAliasOf(sessionId, source.page);
+      // Resolved right away, the frame may be gone by the time the queue gets to the event
+      const frameSelectors = this.frameSelectorChain(source.frame);
+      this.enqueueRecording(sessionId, async () =>
+        this.handleRecordedEvent(sessionId, event, { frame, frameSelectors: await frameSelectors, pageAlias }, sequence)
+      );
+    });
+
+    // The in-page toolbar pauses and resumes through here, the app hears about it like about any pause
+    await context.exposeBinding(RECORDER_CONTROL, async (_source: unknown, command: RecorderControlCommand) => {
+      if (command === 'pause' && browserSession.isRecording) {
+        await this.pauseRecording(sessionId);
+        this.emit('recording:paused', { sessionId });
+      } else if (command === 'resume' && this.pausedAt.has(sessionId)) {
+        await this.resumeRecording(sessionId);
+        this.emit('recording:resumed', { sessionId });
+      }
+      return this.toolbarState(sessionId, browserSession);
+    });
+
+    await context.addInitScript({ content: buildRecorderScript({
+      bindingName: RECORDER_BINDING,
+      flushName: RECORDER_FLUSH,
+      describeName: RECORDER_DESCRIBE,
+      secretNameName: RECORDER_SECRET_NAME,
+      controlName: RECORDER_CONTROL,
+      stateName: RECORDER_STATE
+    }) });
+
+    this.recordNavigations(sessionId, browserSession, page, MAIN_PAGE_ALIAS);
+    context.on('page', (popup: Page) => this.trackPopup(sessionId, browserSession, popup));
+
+    this.networkCapture.attach(context, (exchange, source) => {
+      if (!browserSession.isRecording) return;
+      const pageAlias = source ? this.pageAliasOf(sessionId, source) : MAIN_PAGE_ALIAS;
+      this.enqueueRecording(sessionId, () => this.attachExchange(sessionId, exchange, pageAlias));
+    });
+  }
+
+  private recordNavigations(sessionId: string, browserSession: BrowserSession, page: Page, pageAlias: string): void {
+    // A popup's first navigation is the one that opened it, replays get it by repeating the opening step
+    let openingNavigation = pageAlias !== MAIN_PAGE_ALIAS;
+
+    page.on('framenavigated', frame => {
+      if (frame !== page.mainFrame()) return;
+      if (openingNavigation) {
+        openingNavigation = false;
+        return;
+      }
+      if (!browserSession.isRecording || this.duringRemoteAction(sessionId, Date.now(), true)) return;
+
+      const sequence = this.nextSequence(sessionId);
+      const url = frame.url();
+      this.enqueueRecording(sessionId, async () => {
+        await this.recordStep(sessionId, {
           type: 'navigate',
           selector: '',
-          actionParams: { url: frame.url() },
-          description: `Navigate to ${frame.url()}`
+          actionParams: { url },
+          description: `Navigate to ${url}`,
+          ...(pageAlias !== MAIN_PAGE_ALIAS && { pageAlias }),
+          metadata: { sequence, frame: this.describeFrame(frame), recordedAt: Date.now() }
         });
-      }
+      });
     });
+  }
 
-    // Inject client-side recording script
-    await page.addInitScript(() => {
-      // Client-side event capture
-      const recordEvent = (eventType: string, element: Element, value?: string) => {
-        const selector = generateSelector(element);
-        window.postMessage({
-          type: 'PLAYWRIGHT_RECORD',
-          eventType,
-          selector,
-          value,
-          timestamp: Date.now()
-        }, '*');
-      };
-
-      const generateSelector = (element: Element): string => {
-        // Priority: data-testid > aria-label > id > class > tag
-        if (element.getAttribute('data-testid')) {
-          return `[data-testid="${element.getAttribute('data-testid')}"]`;
-        }
-        if (element.getAttribute('aria-label')) {
-          return `[aria-label="${element.getAttribute('aria-label')}"]`;
-        }
-        if (element.id) {
-          return `#${element.id}`;
-        }
-        if (element.className) {
-          const classes = element.className.split(' ').filter(c => c.length > 0);
-          if (classes.length > 0) {
-            return `.${classes[0]}`;
-          }
-        }
-        return element.tagName.toLowerCase();
-      };
-
-      // Record clicks
-      document.addEventListener('click', (e) => {
-        recordEvent('click', e.target as Element);
-      }, true);
-
-      // Record input changes
-      document.addEventListener('input', (e) => {
-        const target = e.target as HTMLInputElement;
-        recordEvent('fill', target, target.value);
-      }, true);
-
-      // Record form submissions
-      document.addEventListener('submit', (e) => {
-        recordEvent('submit', e.target as Element);
-      }, true);
+  private trackPopup(sessionId: string, browserSession: BrowserSession, popup: Page): void {
+    const aliases = this.pageAliases.get(sessionId);
+    if (!aliases) return;
+
+    const popupAlias = `page${aliases.size}`;
+    aliases.set(popup, popupAlias);
+    this.recordNavigations(sessionId, browserSession, popup, popupAlias);
+    logger.info(`Tracking ${popupAlias} in session ${sessionId}: ${popup.url()}`);
+
+    if (!browserSession.isRecording) return;
+
+    const openedAt = Date.now();
+    void popup.opener().then(opener => {
+      // Links with rel="noopener" leave no opener, the last step is then the best guess
+      const openerAlias = opener ? aliases.get(opener) : undefined;
+      setTimeout(() => {
+        this.enqueueRecording(sessionId, () => this.linkPopup(sessionId, popupAlias, openerAlias, openedAt));
+      }, POPUP_LINK_DELAY_MS);
     });
+  }
+
+  // Marks the step that opened a popup, so replays and generated tests wait for the new page around it
+  private async linkPopup(sessionId: string, popupAlias: string, openerAlias: string | undefined, openedAt: number): Promise<void> {
+    const session = this.getSession(sessionId);
+    if (!session) return;
+
+    const opening = [...session.steps].reverse().find(step =>
+      (!openerAlias || (step.pageAlias || MAIN_PAGE_ALIAS) === openerAlias) &&
+      !step.popupAlias &&
+      (step.metadata?.['recordedAt'] ?? 0) <= openedAt
+    );
+
+    if (!opening) {
+      logger.warn(`No recorded step opened ${popupAlias} in session ${sessionId}`);
+      return;
+    }
+
+    const step = await this.updateStep(sessionId, opening.id, { popupAlias });
+    this.emit('step:updated', { sessionId, stepId: step.id, step });
+  }
+
+  // A request belongs to the last step recorded on its page before the request started
+  private async attachExchange(sessionId: string, exchange: NetworkExchange, pageAlias: string): Promise<void> {
+    const session = this.getSession(sessionId);
+    if (!session) return;
+
+    const trigger = [...session.steps].reverse().find(step =>
+      (step.pageAlias || MAIN_PAGE_ALIAS) === pageAlias &&
+      (step.metadata?.['recordedAt'] ?? Infinity) <= exchange.startedAt
+    );
+
+    if (!trigger || exchange.startedAt - trigger.metadata?.['recordedAt'] > NETWORK_ATTACH_WINDOW_MS) {
+      logger.debug(`No recorded step triggered ${exchange.method} ${exchange.url} in session ${sessionId}`);
+      return;
+    }
+
+    const step = await this.updateStep(sessionId, trigger.id, {
+      network: [...(trigger.network || []), this.redactSecrets(sessionId, exchange)]
+    });
+    this.emit('step:updated', { sessionId, stepId: step.id, step });
+  }
+
+  // Environment variable style, e.g. "loginPassword" becomes LOGIN_PASSWORD. Another field
+  // with the same name gets a numbered one, typing into the same field again reuses it
+  private secretNameFor(sessionId: string, selector: string, hint: string): string {
+    const base = hint
+      .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+      .replace(/[^A-Za-z\d]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .toUpperCase();
+    const root = !base ? 'SECRET' : /^\d/.test(base) ? `SECRET_${base}` : base;
+    const steps = this.getSession(sessionId)?.steps || [];
+
+    let name = root;
+    for (let n = 2; steps.some(step => step.actionParams?.['secret'] === name && step.selector !== selector); n++) {
+      name = `${root}_${n}`;
+    }
+    return name;
+  }
+
+  private rememberSecret(sessionId: string, name: string, value: string): void {
+    if (!value) return;
+    const secrets = this.secretValues.get(sessionId) || new Map<string, string>();
+    secrets.set(name, value);
+    this.secretValues.set(sessionId, secrets);
+  }
+
+  // Requests repeat what was typed, e.g. a login posting the password; each form it may be
+  // sent in is replaced with the secret's name
+  private redactSecrets(sessionId: string, exchange: NetworkExchange): NetworkExchange {
+    const secrets = this.secretValues.get(sessionId);
+    if (!secrets) return exchange;
 
-    // Listen for recorded events from client
-    page.on('console', async (msg: any) => {
-      if (msg.type() === 'log' && msg.text().startsWith('PLAYWRIGHT_RECORD:')) {
-        try {
-          const eventData = JSON.parse(msg.text().replace('PLAYWRIGHT_RECORD:', ''));
-          await this.handleRecordedEvent(sessionId, eventData);
-        } catch (error) {
-          logger.error(`Error parsing recorded event: ${error}`);
+    const redact = (text: string): string => {
+      for (const [name, value] of secrets) {
+        for (const form of new Set([value, encodeURIComponent(value), JSON.stringify(value).slice(1, -1)])) {
+          text = text.split(form).join(`<${name}>`);
         }
       }
-    });
+      return text;
+    };
+
+    const redacted = { ...exchange, url: redact(exchange.url) };
+    if (exchange.requestBody !== undefined) redacted.requestBody = redact(exchange.requestBody);
+    return redacted;
+  }
+
+  private pageAliasOf(sessionId: string, page: Page): string {
+    return this.pageAliases.get(sessionId)?.get(page) || MAIN_PAGE_ALIAS;
   }
 
-  private async handleRecordedEvent(sessionId: string, eventData: any): Promise<void> {
-    const { eventType, selector, value } = eventData;
+  private async handleRecordedEvent(
+    sessionId: string,
+    eventData: RecorderEvent,
+    origin: EventOrigin,
+    sequence: number
+  ): Promise<void> {
+    const { frame, frameSelectors, pageAlias } = origin;
+    const { eventType, selector, value, candidates = [] } = eventData;
 
     let stepType: TestStep['type'];
     let description: string;
-    let actionParams: any = {};
+    let actionParams: Record<string, unknown> = {};
 
     switch (eventType) {
       case 'click':
@@ -178,37 +407,232 @@ export class SessionManager {
         break;
       case 'fill':
         stepType = 'fill';
-        description = `Fill "${value}" in ${selector}`;
-        actionParams = { value };
+        if (eventData.sensitive !== undefined) {
+          // The value stays out of the step, tests read it from the environment
+          const secret = this.secretNameFor(sessionId, selector, eventData.sensitive);
+          this.rememberSecret(sessionId, secret, value || '');
+          description = `Fill secret ${secret} in ${selector}`;
+          actionParams = { secret };
+        } else {
+          description = `Fill "${value}" in ${selector}`;
+          actionParams = { value };
+        }
         break;
-      case 'submit':
-        stepType = 'click';
-        description = `Submit form ${selector}`;
+      case 'select': {
+        const values = eventData.values || [];
+        stepType = 'select';
+        description = `Select "${values.join('", "')}" in ${selector}`;
+        actionParams = { value: values.length === 1 ? values[0] : values };
+        break;
+      }
+      case 'check':
+        stepType = 'check';
+        description = `Check ${selector}`;
+        break;
+      case 'uncheck':
+        stepType = 'uncheck';
+        description = `Uncheck ${selector}`;
+        break;
+      case 'press':
+        stepType = 'press';
+        description = selector ? `Press ${eventData.key} in ${selector}` : `Press ${eventData.key}`;
+        actionParams = { key: eventData.key };
+        break;
+      case 'hover':
+        stepType = 'hover';
+        description = `Hover over ${selector}`;
+        break;
+      case 'upload': {
+        const files = eventData.files || [];
+        stepType = 'upload';
+        description = files.length > 0
+          ? `Upload ${files.map(file => file.name).join(', ')} to ${selector}`
+          : `Clear files in ${selector}`;
+        actionParams = { files };
+        break;
+      }
+      case 'drag': {
+        const { dropTarget } = eventData;
+        if (!dropTarget) return;
+        stepType = 'drag';
+        description = `Drag ${selector} to ${dropTarget.selector}`;
+        actionParams = {
+          targetSelector: dropTarget.selector,
+          targetFallbackSelectors: (dropTarget.candidates || [])
+            .map(candidate => candidate.selector)
+            .filter(candidate => candidate !== dropTarget.selector)
+        };
+        break;
+      }
+      case 'scroll':
+        stepType = 'scroll';
+        description = `Scroll ${selector} into view`;
+        break;
+      case 'assertion':
+        stepType = 'assertion';
+        ({ description, actionParams } = this.describeAssertion(eventData));
         break;
       default:
         return;
     }
 
-    await this.addStep(sessionId, {
+    await this.recordStep(sessionId, {
       type: stepType,
       selector,
       actionParams,
-      description
+      description,
+      fallbackSelectors: candidates.map(candidate => candidate.selector).filter(candidate => candidate !== selector),
+      ...(frameSelectors.length > 0 && { frameSelectors }),
+      ...(pageAlias !== MAIN_PAGE_ALIAS && { pageAlias }),
+      metadata: {
+        sequence,
+        frame,
+        pageUrl: eventData.url,
+        recordedAt: eventData.timestamp,
+        selectorCandidates: candidates,
+        ...(eventData.fingerprint && { fingerprint: eventData.fingerprint })
+      }
     });
   }
 
-  async addStep(sessionId: string, stepData: Omit<TestStep, 'id' | 'timestamp' | 'fallbackSelectors'>): Promise<TestStep> {
+  private describeAssertion(eventData: RecorderEvent): { description: string; actionParams: Record<string, unknown> } {
+    const { selector, value = '' } = eventData;
+    const assertion = eventData.assertion || 'text';
+
+    switch (assertion) {
+      case 'visible':
+        return { description: `Assert ${selector} is visible`, actionParams: { assertion } };
+      case 'value':
+        return { description: `Assert ${selector} has value "${value}"`, actionParams: { assertion, expectedValue: value } };
+      case 'checked': {
+        const checked = Boolean(eventData.checked);
+        return { description: `Assert ${selector} is ${checked ? 'checked' : 'not checked'}`, actionParams: { assertion, checked } };
+      }
+      case 'url':
+        return { description: `Assert URL is ${value}`, actionParams: { assertion, expectedUrl: value } };
+      default:
+        return { description: `Assert ${selector} contains "${value}"`, actionParams: { assertion, expectedText: value } };
+    }
+  }
+
+  private async recordStep(sessionId: string, stepData: Omit<TestStep, 'id' | 'timestamp'>): Promise<TestStep> {
+    const step = await this.addStep(sessionId, stepData);
+    this.emit('step:recorded', { sessionId, step });
+    return step;
+  }
+
+  // Recorded events are stored one at a time so steps keep the order they happened in
+  private enqueueRecording(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.recordingQueues.get(sessionId) || Promise.resolve();
+    const next = previous.then(task).catch(error => {
+      logger.error(`Failed to record event for session ${sessionId}:`, error);
+    });
+    this.recordingQueues.set(sessionId, next);
+    return next;
+  }
+
+  // A field typed into before a pause is kept when the merged fill arrives during the pause
+  private startedBeforePause(sessionId: string, event: RecorderEvent): boolean {
+    const pausedAt = this.pausedAt.get(sessionId);
+    return event.eventType === 'fill' && pausedAt !== undefined &&
+      event.startedAt !== undefined && event.startedAt < pausedAt;
+  }
+
+  // Asks every frame to send the fill or scroll it is still holding back and waits until they are stored
+  private async flushRecorder(sessionId: string, browserSession: BrowserSession): Promise<void> {
+    if (!this.instrumentedSessions.has(sessionId)) return;
+
+    const context: BrowserContext = browserSession.context;
+    const frames = context.pages().flatMap(page => page.frames());
+    await Promise.all(frames.map(frame =>
+      frame.evaluate(flushName => {
+        const flush = (window as unknown as Record<string, unknown>)[flushName];
+        if (typeof flush === 'function') flush();
+      }, RECORDER_FLUSH).catch(error => {
+        logger.debug(`Could not flush recorder in ${frame.url()}: ${(error as Error).message}`);
+      })
+    ));
+
+    await this.recordingQueues.get(sessionId);
+  }
+
+  private nextSequence(sessionId: string): number {
+    const sequence = (this.eventSequences.get(sessionId) || 0) + 1;
+    this.eventSequences.set(sessionId, sequence);
+    return sequence;
+  }
+
+  private toolbarState(sessionId: string, browserSession: BrowserSession): RecorderToolbarState {
+    if (browserSession.isRecording) return 'recording';
+    return this.pausedAt.has(sessionId) ? 'paused' : 'stopped';
+  }
+
+  // Keeps the toolbar of every open page in step with pauses and resumes made from the app
+  private async syncToolbar(sessionId: string, browserSession: BrowserSession): Promise<void> {
+    if (!this.instrumentedSessions.has(sessionId)) return;
+
+    const context: BrowserContext = browserSession.context;
+    const state = this.toolbarState(sessionId, browserSession);
+    await Promise.all(context.pages().map(page =>
+      page.evaluate(({ stateName, state }) => {
+        const setState = (window as unknown as Record<string, unknown>)[stateName];
+        if (typeof setState === 'function') setState(state);
+      }, { stateName: RECORDER_STATE, state }).catch(error => {
+        logger.debug(`Could not update recorder toolbar in ${page.url()}: ${(error as Error).message}`);
+      })
+    ));
+  }
+
+  // Selectors for the iframe elements between the page and the frame, outermost first
+  private async frameSelectorChain(frame: Frame): Promise<string[]> {
+    const chain: string[] = [];
+
+    for (let current = frame, parent = frame.parentFrame(); parent; current = parent, parent = parent.parentFrame()) {
+      chain.unshift(await this.frameElementSelector(current));
+    }
+
+    return chain;
+  }
+
+  private async frameElementSelector(frame: Frame): Promise<string> {
+    try {
+      const element = await frame.frameElement();
+      // The parent frame runs the recorder too, so the iframe gets the same kind of selector as any element
+      const selector = await element.evaluate((node, describeName) => {
+        const describe = (window as unknown as Record<string, unknown>)[describeName];
+        return typeof describe === 'function' ? (describe as (node: Node) => string)(node) : null;
+      }, RECORDER_DESCRIBE);
+      await element.dispose();
+      if (selector) return selector;
+    } catch (error) {
+      logger.debug(`Could not describe frame element for ${frame.url()}: ${(error as Error).message}`);
+    }
+
+    return frame.name() ? `iframe[name=${JSON.stringify(frame.name())}]` : `iframe[src=${JSON.stringify(frame.url())}]`;
+  }
+
+  private describeFrame(frame: Frame): RecorderFrameInfo {
+    return {
+      url: frame.url(),
+      name: frame.name(),
+      isMainFrame: frame.parentFrame() === null
+    };
+  }
+
+  async addStep(sessionId: string, stepData: Omit<TestStep, 'id' | 'timestamp'>): Promise<TestStep> {
     const session = this.getSession(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
-    // Generate fallback selectors using self-healing engine
-    const fallbackSelectors = await this.healingEngine.generateFallbackSelectors(
-      stepData.selector,
-      stepData.type,
-      session.settings.healingStrategies
-    );
+    // Selectors the recorder checked against the page beat guesses from the self-healing engine
+    const fallbackSelectors = stepData.fallbackSelectors?.length
+      ? stepData.fallbackSelectors
+      : await this.healingEngine.generateFallbackSelectors(
+        stepData.selector,
+        stepData.type,
+        session.settings.healingStrategies
+      );
 
     const step: TestStep = {
       id: uuidv4(),
@@ -253,6 +677,224 @@ export class SessionManager {
     return updatedStep;
   }
 
+  /**
+   * Runs an action sent by the app on the session's browser. The recorder ignores what the
+   * action does to the page; with `record` the action is stored as a step of its own, in
+   * order with the steps recorded around it.
+   */
+  async performBrowserAction(
+    sessionId: string,
+    action: BrowserAction,
+    record = false,
+    pageAlias: string = MAIN_PAGE_ALIAS
+  ): Promise<BrowserActionResult> {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const browserSession = this.browserManager.getSession(sessionId);
+    if (!browserSession) {
+      throw new Error(`Browser session not found: ${sessionId}`);
+    }
+
+    const page = this.pageByAlias(sessionId, browserSession, pageAlias);
+    const timeout = session.settings.waitTimeout;
+    const window: RemoteActionWindow = {
+      start: Date.now(),
+      end: Infinity,
+      navigation: ['navigate', 'back', 'forward', 'reload'].includes(action.type)
+    };
+    this.trackRemoteAction(sessionId, window);
+
+    let screenshot: Buffer | undefined;
+    let secretHint: string | null = null;
+    try {
+      // The recorder's fill event is dropped as part of this action, so the step has to be masked here
+      if (record && action.type === 'type') secretHint = await this.secretHintOf(page, action.selector, timeout);
+      screenshot = await this.runBrowserAction(page, action, timeout);
+    } finally {
+      window.end = Date.now();
+    }
+
+    const result: BrowserActionResult = {
+      action: action.type,
+      url: page.url(),
+      title: await page.title(),
+      viewport: page.viewportSize(),
+      ...(screenshot && { screenshot: screenshot.toString('base64') })
+    };
+
+    const stepData = record ? this.browserActionStep(sessionId, action, page.url(), secretHint) : null;
+    if (stepData) {
+      let step: TestStep | undefined;
+      await this.enqueueRecording(sessionId, async () => {
+        step = await this.recordStep(sessionId, {
+          ...stepData,
+          ...(pageAlias !== MAIN_PAGE_ALIAS && { pageAlias }),
+          metadata: { sequence: this.nextSequence(sessionId), pageUrl: page.url(), recordedAt: window.start, remote: true }
+        });
+      });
+      if (!step) {
+        throw new Error(`Failed to record ${action.type} action in session ${sessionId}`);
+      }
+      result.step = step;
+    }
+
+    logger.info(`Performed ${action.type} action in session ${sessionId}`);
+    return result;
+  }
+
+  private async runBrowserAction(page: Page, action: BrowserAction, timeout: number): Promise<Buffer | undefined> {
+    switch (action.type) {
+      case 'navigate':
+        await page.goto(action.url, { timeout });
+        return undefined;
+      case 'back':
+        await page.goBack({ timeout });
+        return undefined;
+      case 'forward':
+        await page.goForward({ timeout });
+        return undefined;
+      case 'reload':
+        await page.reload({ timeout });
+        return undefined;
+      case 'click':
+        await page.locator(action.selector).click({ timeout });
+        return undefined;
+      case 'type':
+        await page.locator(action.selector).fill(action.text, { timeout });
+        return undefined;
+      case 'press':
+        await (action.selector
+          ? page.locator(action.selector).press(action.key, { timeout })
+          : page.keyboard.press(action.key));
+        return undefined;
+      case 'setViewport':
+        await page.setViewportSize({ width: action.width, height: action.height });
+        return undefined;
+      case 'screenshot':
+        return page.screenshot({ fullPage: action.fullPage ?? true, timeout });
+      default:
+        throw new Error(`Unsupported browser action: ${(action as { type: string }).type}`);
+    }
+  }
+
+  // Asks the recorder in the field's frame, so sensitive fields are told apart the same way as when typing by hand.
+  // Frames without the recorder, e.g. before recording started, still get the basic checks, masking never depends on it
+  private async secretHintOf(page: Page, selector: string, timeout: number): Promise<string | null> {
+    return page.locator(selector).evaluate((element, secretNameName) => {
+      const secretName = (window as unknown as Record<string, unknown>)[secretNameName];
+      const recorded = typeof secretName === 'function' ? (secretName as (element: Element) => string | null)(element) : null;
+      if (recorded !== null) return recorded;
+
+      const type = (element.getAttribute('type') || '').toLowerCase();
+      const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/)
+        .find(token => token.includes('password') || token.startsWith('cc-') || token === 'one-time-code');
+      if (type !== 'password' && !autocomplete && !element.closest('[data-sensitive]')) return null;
+
+      return (element.getAttribute('data-sensitive') || '').trim() || element.getAttribute('name') ||
+        element.id || autocomplete || type || 'secret';
+    }, RECORDER_SECRET_NAME, { timeout });
+  }
+
+  // Back, forward and reload become navigate steps that repeat the history move, viewport changes are not steps.
+  // Typing into a sensitive field stores the secret's name like a recorded fill, never the text
+  private browserActionStep(
+    sessionId: string,
+    action: BrowserAction,
+    url: string,
+    secretHint: string | null
+  ): Omit<TestStep, 'id' | 'timestamp'> | null {
+    switch (action.type) {
+      case 'navigate':
+        return { type: 'navigate', selector: '', actionParams: { url: action.url }, description: `Navigate to ${action.url}` };
+      case 'back':
+      case 'forward':
+      case 'reload': {
+        const verb = { back: 'Go back', forward: 'Go forward', reload: 'Reload' }[action.type];
+        return { type: 'navigate', selector: '', actionParams: { url, history: action.type }, description: `${verb} to ${url}` };
+      }
+      case 'click':
+        return { type: 'click', selector: action.selector, description: `Click on ${action.selector}` };
+      case 'type': {
+        if (secretHint === null) {
+          return { type: 'fill', selector: action.selector, actionParams: { value: action.text }, description: `Fill "${action.text}" in ${action.selector}` };
+        }
+        const secret = this.secretNameFor(sessionId, action.selector, secretHint);
+        this.rememberSecret(sessionId, secret, action.text);
+        return { type: 'fill', selector: action.selector, actionParams: { secret }, description: `Fill secret ${secret} in ${action.selector}` };
+      }
+      case 'press':
+        return {
+          type: 'press',
+          selector: action.selector || '',
+          actionParams: { key: action.key },
+          description: action.selector ? `Press ${action.key} in ${action.selector}` : `Press ${action.key}`
+        };
+      case 'screenshot':
+        return { type: 'screenshot', selector: '', description: 'Take screenshot' };
+      default:
+        return null;
+    }
+  }
+
+  private pageByAlias(sessionId: string, browserSession: BrowserSession, pageAlias: string): Page {
+    if (pageAlias === MAIN_PAGE_ALIAS) return browserSession.page;
+
+    for (const [page, alias] of this.pageAliases.get(sessionId) || []) {
+      if (alias === pageAlias && !page.isClosed()) return page;
+    }
+    throw new Error(`Page not found: ${pageAlias}`);
+  }
+
+  private trackRemoteAction(sessionId: string, window: RemoteActionWindow): void {
+    const windows = [...(this.remoteActions.get(sessionId) || []), window];
+    this.remoteActions.set(sessionId, windows.slice(-MAX_REMOTE_ACTION_WINDOWS));
+  }
+
+  // Page timestamps and the server clock are the same machine's, so event times can be compared directly
+  private duringRemoteAction(sessionId: string, time: number, navigation = false): boolean {
+    return (this.remoteActions.get(sessionId) || []).some(window =>
+      (!navigation || window.navigation) && time >= window.start && time <= window.end
+    );
+  }
+
+  // Saves the cookies and local storage the session's browser holds now, e.g. right after a login
+  async saveAuthProfile(sessionId: string, name: string): Promise<AuthProfile> {
+    if (!this.getSession(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const browserSession = this.browserManager.getSession(sessionId);
+    if (!browserSession) {
+      throw new Error(`Browser session not found: ${sessionId}`);
+    }
+
+    return this.authProfiles.save(name, browserSession.context, sessionId);
+  }
+
+  // Picks whether generated tests mock a captured response, wait for it, or leave it out
+  async setNetworkUsage(sessionId: string, stepId: string, exchangeId: string, use: NetworkUsage | null): Promise<TestStep> {
+    const step = this.getSession(sessionId)?.steps.find(s => s.id === stepId);
+    if (!step) {
+      throw new Error(`Step not found: ${stepId}`);
+    }
+
+    if (!step.network?.some(exchange => exchange.id === exchangeId)) {
+      throw new Error(`Network request not found: ${exchangeId}`);
+    }
+
+    const network = step.network.map(exchange => {
+      if (exchange.id !== exchangeId) return exchange;
+      const updated: NetworkExchange = { ...exchange };
+      delete updated.use;
+      return use ? { ...updated, use } : updated;
+    });
+
+    return this.updateStep(sessionId, stepId, { network });
+  }
+
   async removeStep(sessionId: string, stepId: string): Promise<void> {
     const session = this.getSession(sessionId);
     if (!session) {
@@ -280,8 +922,11 @@ export class SessionManager {
     session.updatedAt = new Date().toISOString();
 
     const browserSession = this.browserManager.getSession(sessionId);
-    if (browserSession) {
+    if (browserSession?.isRecording) {
+      // Pending fills are not flushed here, typing can carry on into the same step after resuming
       browserSession.isRecording = false;
+      this.pausedAt.set(sessionId, Date.now());
+      await this.syncToolbar(sessionId, browserSession);
     }
 
     this.activeSessions.set(sessionId, session);
@@ -296,13 +941,16 @@ export class SessionManager {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
-    session.status = 'stopped';
-    session.updatedAt = new Date().toISOString();
-
     const browserSession = this.browserManager.getSession(sessionId);
     if (browserSession) {
+      await this.flushRecorder(sessionId, browserSession);
       browserSession.isRecording = false;
     }
+    this.pausedAt.delete(sessionId);
+    if (browserSession) await this.syncToolbar(sessionId, browserSession);
+
+    session.status = 'stopped';
+    session.updatedAt = new Date().toISOString();
 
     this.activeSessions.set(sessionId, session);
     await this.db.updateSession(sessionId, { status: 'stopped', updatedAt: session.updatedAt });
@@ -316,6 +964,13 @@ export class SessionManager {
 
     // Remove from memory and database
     this.activeSessions.delete(sessionId);
+    this.instrumentedSessions.delete(sessionId);
+    this.recordingQueues.delete(sessionId);
+    this.eventSequences.delete(sessionId);
+    this.pausedAt.delete(sessionId);
+    this.pageAliases.delete(sessionId);
+    this.secretValues.delete(sessionId);
+    this.remoteActions.delete(sessionId);
     await this.db.deleteSession(sessionId);
 
     logger.info(`Deleted session: ${sessionId}`);
@@ -372,6 +1027,7 @@ export class SessionManager {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    // Context options are replaced as a whole; the recording browser keeps the ones it was created with
     session.settings = { ...session.settings, ...settings };
     session.updatedAt = new Date().toISOString();
 
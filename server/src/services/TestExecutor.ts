@@ -0,0 +1,521 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Page } from 'playwright';
+import {
+  BrowserContextConfig,
+  BrowserType,
+  ExecutionMatrix,
+  ExecutionMatrixCell,
+  ExecutionMode,
+  ExecutionStatus,
+  MatrixTarget,
+  StabilityReport,
+  StepResult,
+  TestExecution,
+  TestSession,
+  TestStep,
+  Viewport,
+  WebSocketEvents
+} from '../types';
+import { BrowserManager } from './BrowserManager';
+import { WebSocketManager } from './WebSocketManager';
+import { DatabaseService } from './DatabaseService';
+import { PlaywrightSpecRunner } from './PlaywrightSpecRunner';
+import { ArtifactStore } from './ArtifactStore';
+import { AuthProfileStore } from './AuthProfileStore';
+import { ExecutionAbortedError, ExecutionPriority, ExecutionQueue } from './ExecutionQueue';
+import { StepReplayer } from '../utils/StepReplayer';
+import { StabilityAnalyzer } from '../utils/StabilityAnalyzer';
+import { logger } from '../utils/logger';
+
+export interface ExecutionOptions {
+  mode?: ExecutionMode;
+  priority?: ExecutionPriority;
+  timeout?: number;
+  browser?: BrowserType;
+  device?: string;
+  viewport?: Viewport;
+  matrixId?: string;
+}
+
+export class TestExecutor {
+  private executions: Map<string, TestExecution> = new Map();
+  private replayer = new StepReplayer();
+  private db = new DatabaseService();
+  private specRunner = new PlaywrightSpecRunner();
+  private stabilityAnalyzer = new StabilityAnalyzer();
+
+  constructor(
+    private browserManager: BrowserManager,
+    private wsManager: WebSocketManager,
+    private queue: ExecutionQueue = new ExecutionQueue(),
+    private artifactStore: ArtifactStore = new ArtifactStore(),
+    private authProfiles: AuthProfileStore = new AuthProfileStore()
+  ) {}
+
+  startExecution(session: TestSession, options: ExecutionOptions = {}): TestExecution {
+    const mode = options.mode || 'replay';
+    // Snapshot the steps so edits made during the run don't affect it
+    const steps = session.steps.map(step => ({ ...step }));
+    const snapshot: TestSession = { ...session, steps };
+
+    const execution: TestExecution = {
+      id: uuidv4(),
+      sessionId: session.id,
+      testName: session.testName,
+      browser: options.browser || (session.metadata.browser as BrowserType) || 'chromium',
+      mode,
+      status: 'queued',
+      currentStepIndex: -1,
+      // Spec runs report per test rather than per step
+      stepResults: mode === 'replay' ? steps.map((step, index) => this.createPendingResult(step, index)) : [],
+      summary: { total: mode === 'replay' ? steps.length : 0, passed: 0, failed: 0, healed: 0, skipped: 0 },
+      createdAt: new Date().toISOString()
+    };
+    if (options.device) execution.device = options.device;
+    if (options.viewport) execution.viewport = options.viewport;
+    if (options.matrixId) execution.matrixId = options.matrixId;
+
+    this.executions.set(execution.id, execution);
+
+    this.queue.enqueue({
+      id: execution.id,
+      priority: options.priority || 'normal',
+      timeout: options.timeout || this.queue.defaultTimeout,
+      run: signal => this.runExecution(execution, snapshot, signal)
+    });
+
+    logger.info(`Queued execution ${execution.id} for session ${session.id}`);
+    return execution;
+  }
+
+  startMatrix(session: TestSession, targets: MatrixTarget[], options: ExecutionOptions = {}): ExecutionMatrix {
+    const matrixId = uuidv4();
+    const executions = targets.map(target =>
+      this.startExecution(session, { ...options, ...target, matrixId })
+    );
+
+    logger.info(`Queued matrix ${matrixId} with ${executions.length} executions for session ${session.id}`);
+    return this.buildMatrix(matrixId, session.id, executions);
+  }
+
+  async getMatrix(matrixId: string): Promise<ExecutionMatrix | null> {
+    const executions = await this.getMatrixExecutions(matrixId);
+    if (executions.length === 0) return null;
+
+    return this.buildMatrix(matrixId, executions[0]!.sessionId, executions);
+  }
+
+  async getMatrixExecutions(matrixId: string): Promise<TestExecution[]> {
+    const active = Array.from(this.executions.values()).filter(execution => execution.matrixId === matrixId);
+    const activeIds = new Set(active.map(execution => execution.id));
+
+    // Executions from before a restart are only available in the database
+    const persisted = (await this.db.getMatrixExecutions(matrixId)).filter(execution => !activeIds.has(execution.id));
+
+    return [...active, ...persisted].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Replays the session `runs` times in every browser. The check is a matrix whose
+   * targets repeat, so its id works with the matrix endpoints as well.
+   */
+  startStabilityCheck(
+    session: TestSession,
+    runs: number,
+    browsers: BrowserType[],
+    options: ExecutionOptions = {}
+  ): ExecutionMatrix {
+    const targets: MatrixTarget[] = [];
+    for (let run = 0; run < runs; run++) {
+      targets.push(...browsers.map(browser => ({ browser })));
+    }
+
+    return this.startMatrix(session, targets, { ...options, mode: 'replay' });
+  }
+
+  async getStabilityReport(checkId: string): Promise<StabilityReport | null> {
+    const executions = await this.getMatrixExecutions(checkId);
+    if (executions.length === 0) return null;
+
+    return this.stabilityAnalyzer.analyze(
+      checkId,
+      executions,
+      this.aggregateStatus(executions.map(execution => execution.status))
+    );
+  }
+
+  cancelExecution(executionId: string): TestExecution | undefined {
+    const execution = this.executions.get(executionId);
+    if (!execution || (execution.status !== 'queued' && execution.status !== 'running')) {
+      return execution;
+    }
+
+    // Running executions are finalized by runExecution once the abort lands
+    if (this.queue.cancel(executionId) === 'dequeued') {
+      execution.status = 'cancelled';
+      execution.error = 'Execution was cancelled';
+      this.skipRemainingSteps(execution, 0);
+      this.finishExecution(execution).catch(error => {
+        logger.error(`Failed to finalize cancelled execution ${executionId}:`, error);
+      });
+    }
+
+    return execution;
+  }
+
+  getQueuePosition(executionId: string): number {
+    return this.queue.getPosition(executionId);
+  }
+
+  getExecution(executionId: string): TestExecution | undefined {
+    return this.executions.get(executionId);
+  }
+
+  async getExecutionAsync(executionId: string): Promise<TestExecution | null> {
+    const memoryExecution = this.executions.get(executionId);
+    if (memoryExecution) return memoryExecution;
+
+    return this.db.getExecution(executionId);
+  }
+
+  getSessionExecutions(sessionId: string): TestExecution[] {
+    return Array.from(this.executions.values())
+      .filter(execution => execution.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getExecutionHistory(sessionId: string): Promise<TestExecution[]> {
+    const history = await this.db.getSessionExecutions(sessionId);
+    const persistedIds = new Set(history.map(execution => execution.id));
+
+    // Runs still in progress have not been persisted yet
+    const active = this.getSessionExecutions(sessionId).filter(execution => !persistedIds.has(execution.id));
+
+    return [...active, ...history].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private buildMatrix(matrixId: string, sessionId: string, executions: TestExecution[]): ExecutionMatrix {
+    const cells = executions.map(execution => {
+      const cell: ExecutionMatrixCell = {
+        executionId: execution.id,
+        browser: execution.browser,
+        status: execution.status,
+        summary: execution.summary
+      };
+      if (execution.device) cell.device = execution.device;
+      if (execution.viewport) cell.viewport = execution.viewport;
+      if (execution.duration !== undefined) cell.duration = execution.duration;
+      if (execution.error) cell.error = execution.error;
+      return cell;
+    });
+
+    return { id: matrixId, sessionId, status: this.aggregateStatus(cells.map(cell => cell.status)), cells };
+  }
+
+  private aggregateStatus(statuses: ExecutionStatus[]): ExecutionStatus {
+    if (statuses.some(status => status === 'running')) return 'running';
+    if (statuses.some(status => status === 'queued')) {
+      return statuses.every(status => status === 'queued') ? 'queued' : 'running';
+    }
+    if (statuses.some(status => status === 'error')) return 'error';
+    if (statuses.some(status => status === 'failed' || status === 'timedOut')) return 'failed';
+    if (statuses.every(status => status === 'cancelled')) return 'cancelled';
+    return statuses.some(status => status === 'passed') ? 'passed' : 'cancelled';
+  }
+
+  private async runExecution(execution: TestExecution, session: TestSession, signal: AbortSignal): Promise<void> {
+    execution.status = 'running';
+    execution.startedAt = new Date().toISOString();
+
+    this.wsManager.emitToSession(session.id, 'execution:started', {
+      sessionId: session.id,
+      executionId: execution.id,
+      browser: execution.browser,
+      ...(execution.device && { device: execution.device }),
+      ...(execution.matrixId && { matrixId: execution.matrixId }),
+      totalSteps: session.steps.length,
+      startedAt: execution.startedAt
+    });
+
+    // Closing the context interrupts whatever action is in flight; it saves the trace first like any run
+    let interrupted: Promise<void> | null = null;
+    const interrupt = () => {
+      interrupted = this.closeRunContext(execution);
+    };
+    signal.addEventListener('abort', interrupt, { once: true });
+
+    try {
+      if (execution.mode === 'spec') {
+        await this.runSpec(execution, session, signal);
+      } else {
+        await this.replaySteps(execution, session, signal);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        const reason = signal.reason;
+        execution.status = reason instanceof ExecutionAbortedError ? reason.reason : 'cancelled';
+        execution.error = (reason as Error).message;
+      } else {
+        execution.status = 'error';
+        execution.error = (error as Error).message;
+        logger.error(`Execution ${execution.id} errored:`, error);
+      }
+      this.skipRemainingSteps(execution, Math.max(0, execution.currentStepIndex));
+    } finally {
+      signal.removeEventListener('abort', interrupt);
+      // Waits for an interrupting close to finish; a context created after it still needs closing
+      await interrupted;
+      await this.closeRunContext(execution);
+    }
+
+    await this.finishExecution(execution);
+  }
+
+  private async closeRunContext(execution: TestExecution): Promise<void> {
+    const browserSession = this.browserManager.getSession(execution.id);
+    if (!browserSession) return;
+
+    // The trace has to be written before the context closes, the video only after
+    await this.artifactStore.saveTrace(browserSession.context, execution.sessionId, execution.id);
+    const video = browserSession.page.video();
+    await this.browserManager.closeSession(execution.id);
+
+    if (video) {
+      await this.artifactStore.saveVideo(video, execution.sessionId, execution.id);
+    }
+  }
+
+  private async finishExecution(execution: TestExecution): Promise<void> {
+    if (execution.mode === 'replay') {
+      execution.summary = this.summarize(execution.stepResults);
+    }
+    execution.finishedAt = new Date().toISOString();
+    if (execution.startedAt) {
+      execution.duration = Date.parse(execution.finishedAt) - Date.parse(execution.startedAt);
+    }
+
+    const finishedEvent: WebSocketEvents['execution:finished'] = {
+      sessionId: execution.sessionId,
+      executionId: execution.id,
+      status: execution.status,
+      summary: execution.summary,
+      finishedAt: execution.finishedAt
+    };
+    if (execution.startedAt) finishedEvent.startedAt = execution.startedAt;
+    if (execution.duration !== undefined) finishedEvent.duration = execution.duration;
+    if (execution.error) finishedEvent.error = execution.error;
+    this.wsManager.emitToSession(execution.sessionId, 'execution:finished', finishedEvent);
+
+    try {
+      await this.db.createExecution(execution);
+      // Finished runs are read back from the database, only unsaved ones stay in memory
+      this.executions.delete(execution.id);
+    } catch (error) {
+      logger.error(`Failed to persist execution ${execution.id}:`, error);
+    }
+
+    logger.info(
+      `Execution ${execution.id} finished with status ${execution.status} ` +
+      `(${execution.summary.passed} passed, ${execution.summary.failed} failed, ${execution.summary.healed} healed)`
+    );
+  }
+
+  private async replaySteps(execution: TestExecution, session: TestSession, signal: AbortSignal): Promise<void> {
+    const browserSession = await this.browserManager.createSession(
+      execution.id,
+      execution.browser,
+      await this.targetOf(execution, session),
+      this.artifactStore.runDir(execution.sessionId, execution.id)
+    );
+    const page: Page = browserSession.page;
+    const popups = new Map<string, Page>();
+    await browserSession.context.tracing.start({ screenshots: true, snapshots: true });
+
+    for (let index = 0; index < session.steps.length; index++) {
+      this.throwIfAborted(signal);
+      const step = session.steps[index]!;
+      execution.currentStepIndex = index;
+      execution.stepResults[index] = {
+        ...execution.stepResults[index]!,
+        status: 'running',
+        startedAt: new Date().toISOString()
+      };
+      this.emitStepEvent(execution, 'step:running', execution.stepResults[index]!);
+
+      const result = await this.runStep(page, popups, step, index, session, signal);
+      const stepPage = step.pageAlias ? popups.get(step.pageAlias) || page : page;
+      const screenshot = await this.captureStepScreenshot(stepPage, execution, result, session);
+      if (screenshot) result.screenshot = screenshot;
+      execution.stepResults[index] = result;
+      execution.summary = this.summarize(execution.stepResults);
+      this.emitStepEvent(execution, this.stepEventFor(result), result);
+
+      if (result.status === 'failed') {
+        this.skipRemainingSteps(execution, index + 1);
+        break;
+      }
+    }
+
+    execution.status = execution.stepResults.some(result => result.status === 'failed') ? 'failed' : 'passed';
+  }
+
+  private async runSpec(execution: TestExecution, session: TestSession, signal: AbortSignal): Promise<void> {
+    const result = await this.specRunner.run(
+      session,
+      { browser: execution.browser, ...await this.targetOf(execution, session) },
+      signal,
+      this.artifactStore.runDir(execution.sessionId, execution.id)
+    );
+    this.throwIfAborted(signal);
+
+    execution.specResults = result.tests;
+    execution.status = result.status;
+    execution.summary = {
+      total: result.tests.length,
+      passed: result.tests.filter(test => test.status === 'passed').length,
+      failed: result.tests.filter(test => test.status !== 'passed' && test.status !== 'skipped').length,
+      healed: 0,
+      skipped: result.tests.filter(test => test.status === 'skipped').length
+    };
+    if (result.error) {
+      execution.error = result.error;
+    }
+  }
+
+  private async captureStepScreenshot(
+    page: Page,
+    execution: TestExecution,
+    result: StepResult,
+    session: TestSession
+  ): Promise<string | undefined> {
+    const { screenshotMode } = session.settings;
+    if (screenshotMode === 'none' || (screenshotMode === 'on-failure' && result.status !== 'failed')) {
+      return undefined;
+    }
+
+    return this.artifactStore.saveStepScreenshot(execution.sessionId, execution.id, result.stepIndex, filePath =>
+      page.screenshot({ path: filePath, fullPage: true })
+    );
+  }
+
+  private async targetOf(execution: TestExecution, session: TestSession): Promise<BrowserContextConfig> {
+    const config: BrowserContextConfig = { ...session.settings.contextOptions };
+    // A matrix cell's device or viewport replaces the session's screen, locale and the rest still apply
+    if (execution.device || execution.viewport) {
+      delete config.device;
+      delete config.viewport;
+    }
+    if (execution.device) config.device = execution.device;
+    if (execution.viewport) config.viewport = execution.viewport;
+    // Sessions recorded signed in are replayed signed in
+    if (session.metadata.authProfile) {
+      config.storageState = await this.authProfiles.resolveState(session.metadata.authProfile);
+    }
+    return config;
+  }
+
+  private async runStep(
+    page: Page,
+    popups: Map<string, Page>,
+    step: TestStep,
+    index: number,
+    session: TestSession,
+    signal: AbortSignal
+  ): Promise<StepResult> {
+    const startTime = Date.now();
+    const startedAt = new Date(startTime).toISOString();
+    const maxAttempts = Math.max(1, session.settings.maxRetryAttempts);
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.throwIfAborted(signal);
+      try {
+        const outcome = await this.replayer.replay(page, step, session.settings, popups);
+        const result: StepResult = {
+          ...this.createPendingResult(step, index),
+          status: outcome.healed ? 'healed' : 'passed',
+          attempts: attempt,
+          duration: Date.now() - startTime,
+          startedAt,
+          finishedAt: new Date().toISOString()
+        };
+        if (outcome.healedSelector) {
+          result.healedSelector = outcome.healedSelector;
+        }
+        return result;
+      } catch (error) {
+        this.throwIfAborted(signal);
+        lastError = error as Error;
+        logger.warn(`Step ${index + 1} (${step.type}) failed on attempt ${attempt}/${maxAttempts}: ${lastError.message}`);
+      }
+    }
+
+    return {
+      ...this.createPendingResult(step, index),
+      status: 'failed',
+      attempts: maxAttempts,
+      duration: Date.now() - startTime,
+      error: lastError?.message || 'Unknown error',
+      startedAt,
+      finishedAt: new Date().toISOString()
+    };
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+  }
+
+  private stepEventFor(result: StepResult): 'step:passed' | 'step:failed' | 'step:healed' {
+    switch (result.status) {
+      case 'healed':
+        return 'step:healed';
+      case 'failed':
+        return 'step:failed';
+      default:
+        return 'step:passed';
+    }
+  }
+
+  private emitStepEvent(
+    execution: TestExecution,
+    event: 'step:running' | 'step:passed' | 'step:failed' | 'step:healed',
+    result: StepResult
+  ): void {
+    this.wsManager.emitToSession(execution.sessionId, event, {
+      sessionId: execution.sessionId,
+      executionId: execution.id,
+      result
+    });
+  }
+
+  private skipRemainingSteps(execution: TestExecution, fromIndex: number): void {
+    for (let index = fromIndex; index < execution.stepResults.length; index++) {
+      execution.stepResults[index]!.status = 'skipped';
+    }
+  }
+
+  private createPendingResult(step: TestStep, index: number): StepResult {
+    return {
+      stepId: step.id,
+      stepIndex: index,
+      type: step.type,
+      description: step.description,
+      selector: step.selector,
+      status: 'pending',
+      attempts: 0,
+      duration: 0
+    };
+  }
+
+  private summarize(stepResults: StepResult[]): TestExecution['summary'] {
+    return {
+      total: stepResults.length,
+      passed: stepResults.filter(result => result.status === 'passed').length,
+      failed: stepResults.filter(result => result.status === 'failed').length,
+      healed: stepResults.filter(result => result.status === 'healed').length,
+      skipped: stepResults.filter(result => result.status === 'skipped').length
+    };
+  }
+}
@@ -1,17 +1,48 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { SessionManager } from './SessionManager';
-import { WebSocketEvents } from '../types';
+import { ScreencastManager } from './ScreencastManager';
+import {
+  ApiResponse,
+  BroadcastBrowserAction,
+  BrowserAction,
+  BrowserActionRequest,
+  BrowserActionResult,
+  ScreencastInput,
+  WebSocketEvents
+} from '../types';
 import { logger } from '../utils/logger';
 
 export class WebSocketManager {
   private connectedClients: Map<string, Socket> = new Map();
   private sessionConnections: Map<string, Set<string>> = new Map();
+  // Sockets watching the live view of each session, the screencast runs while there are any
+  private screencastViewers: Map<string, Set<string>> = new Map();
 
   constructor(
     private io: SocketIOServer,
-    private sessionManager: SessionManager
+    private sessionManager: SessionManager,
+    private screencastManager: ScreencastManager
   ) {
     this.setupSocketHandlers();
+
+    // Steps captured by the in-page recorder
+    this.sessionManager.on('step:recorded', (data: WebSocketEvents['step:recorded']) => {
+      this.emitToSession(data.sessionId, 'step:recorded', data);
+    });
+
+    // Steps the recorder changed afterwards, e.g. when they turn out to have opened a popup
+    this.sessionManager.on('step:updated', (data: WebSocketEvents['step:updated']) => {
+      this.emitToSession(data.sessionId, 'step:updated', data);
+    });
+
+    // Pauses and resumes made from the toolbar in the recorded page
+    this.sessionManager.on('recording:paused', (data: WebSocketEvents['recording:paused']) => {
+      this.emitToSession(data.sessionId, 'recording:paused', data);
+    });
+
+    this.sessionManager.on('recording:resumed', (data: WebSocketEvents['recording:resumed']) => {
+      this.emitToSession(data.sessionId, 'recording:resumed', data);
+    });
   }
 
   private setupSocketHandlers(): void {
@@ -72,6 +103,18 @@ export class WebSocketManager {
         }
       });
 
+      socket.on('recording:resume', async (data: { sessionId: string }) => {
+        try {
+          await this.sessionManager.resumeRecording(data.sessionId);
+          this.emitToSession(data.sessionId, 'recording:resumed', { sessionId: data.sessionId });
+        } catch (error) {
+          socket.emit('session:error', { 
+            sessionId: data.sessionId, 
+            error: (error as Error).message 
+          });
+        }
+      });
+
       socket.on('recording:stop', async (data: { sessionId: string }) => {
         try {
           await this.sessionManager.stopRecording(data.sessionId);
@@ -131,11 +174,49 @@ export class WebSocketManager {
         }
       });
 
-      // Handle browser actions
-      socket.on('browser:action', async (data: { sessionId: string; action: any }) => {
+      // Browser actions sent by the app; the result goes back through the acknowledgement
+      socket.on('browser:action', async (data: BrowserActionRequest, ack?: (response: ApiResponse<BrowserActionResult>) => void) => {
+        try {
+          const result = await this.handleBrowserAction(data);
+          ack?.({ success: true, data: result });
+
+          // Screenshots and typed text only go to the client that sent the action
+          const broadcast = { ...result };
+          delete broadcast.screenshot;
+          this.emitToSession(data.sessionId, 'browser:action', {
+            sessionId: data.sessionId,
+            action: this.broadcastAction(data.action),
+            result: broadcast
+          });
+        } catch (error) {
+          ack?.({ success: false, error: (error as Error).message });
+          socket.emit('session:error', { 
+            sessionId: data.sessionId, 
+            error: (error as Error).message 
+          });
+        }
+      });
+
+      // Live view of the recorded browser
+      socket.on('screencast:start', async (data: { sessionId: string }) => {
         try {
-          await this.handleBrowserAction(data.sessionId, data.action);
-          this.emitToSession(data.sessionId, 'browser:action', data);
+          await this.watchScreencast(socket, data.sessionId);
+        } catch (error) {
+          socket.emit('session:error', { 
+            sessionId: data.sessionId, 
+            error: (error as Error).message 
+          });
+        }
+      });
+
+      socket.on('screencast:stop', async (data: { sessionId: string }) => {
+        await this.unwatchScreencast(socket, data.sessionId);
+      });
+
+      // Mouse and keyboard input on the live view, played back in the streamed page
+      socket.on('screencast:input', async (data: { sessionId: string; input: ScreencastInput }) => {
+        try {
+          await this.screencastManager.input(data.sessionId, data.input);
         } catch (error) {
           socket.emit('session:error', { 
             sessionId: data.sessionId, 
@@ -172,6 +253,10 @@ export class WebSocketManager {
             this.sessionConnections.delete(sessionId);
           }
         }
+
+        for (const sessionId of [...this.screencastViewers.keys()]) {
+          void this.unwatchScreencast(socket, sessionId);
+        }
       });
 
       // Send initial connection confirmation
@@ -179,10 +264,57 @@ export class WebSocketManager {
     });
   }
 
-  private async handleBrowserAction(sessionId: string, action: any): Promise<void> {
-    // This method handles browser automation actions triggered from the frontend
-    // Implementation depends on the specific action type
-    logger.info(`Handling browser action for session ${sessionId}:`, action);
+  private async watchScreencast(socket: Socket, sessionId: string): Promise<void> {
+    const room = this.screencastRoom(sessionId);
+    const viewers = this.screencastViewers.get(sessionId) || new Set<string>();
+    viewers.add(socket.id);
+    this.screencastViewers.set(sessionId, viewers);
+    socket.join(room);
+
+    try {
+      await this.screencastManager.start(
+        sessionId,
+        // Volatile: a viewer that cannot keep up skips frames instead of queueing them
+        frame => this.io.to(room).volatile.emit('screencast:frame', frame),
+        () => {
+          this.screencastViewers.delete(sessionId);
+          this.io.to(room).emit('screencast:stopped', { sessionId });
+          this.io.in(room).socketsLeave(room);
+        }
+      );
+    } catch (error) {
+      await this.unwatchScreencast(socket, sessionId);
+      throw error;
+    }
+  }
+
+  private async unwatchScreencast(socket: Socket, sessionId: string): Promise<void> {
+    const viewers = this.screencastViewers.get(sessionId);
+    if (!viewers?.delete(socket.id)) return;
+
+    socket.leave(this.screencastRoom(sessionId));
+    if (viewers.size === 0) {
+      this.screencastViewers.delete(sessionId);
+      await this.screencastManager.stop(sessionId);
+    }
+  }
+
+  private screencastRoom(sessionId: string): string {
+    return `${sessionId}:screencast`;
+  }
+
+  private broadcastAction(action: BrowserAction): BroadcastBrowserAction {
+    return action.type === 'type' ? { type: action.type, selector: action.selector } : action;
+  }
+
+  private async handleBrowserAction(request: BrowserActionRequest): Promise<BrowserActionResult> {
+    const { sessionId, action, record = false, pageAlias } = request;
+    if (!action || typeof action.type !== 'string') {
+      throw new Error('Browser action is missing its type');
+    }
+
+    logger.info(`Handling ${action.type} browser action for session ${sessionId}`);
+    return this.sessionManager.performBrowserAction(sessionId, action, record, pageAlias);
   }
 
   emitToSession<K extends keyof WebSocketEvents>(
@@ -1,15 +1,58 @@
+export type StepType =
+  | 'navigate'
+  | 'click'
+  | 'fill'
+  | 'select'
+  | 'check'
+  | 'uncheck'
+  | 'press'
+  | 'hover'
+  | 'upload'
+  | 'drag'
+  | 'scroll'
+  | 'wait'
+  | 'assertion'
+  | 'screenshot';
+
 export interface TestStep {
   id: string;
-  type: 'navigate' | 'click' | 'fill' | 'select' | 'wait' | 'assertion' | 'screenshot';
+  type: StepType;
   selector: string;
   actionParams?: Record<string, any>;
   description: string;
   timestamp: string;
   fallbackSelectors?: string[];
+  // Selectors of the iframe elements leading to the step's frame, outermost first
+  frameSelectors?: string[];
+  // Popup or tab the step happened in, e.g. "page1"; unset for the main page
+  pageAlias?: string;
+  // Alias given to the popup or tab this step opened
+  popupAlias?: string;
+  // XHR and fetch requests the step triggered while it was recorded
+  network?: NetworkExchange[];
   screenshot?: string;
   metadata?: Record<string, any>;
 }
 
+// What generated tests do with a captured response: replace it with a mock, or wait for it
+export type NetworkUsage = 'mock' | 'wait';
+
+export interface NetworkExchange {
+  id: string;
+  method: string;
+  url: string;
+  resourceType: 'xhr' | 'fetch';
+  requestBody?: string;
+  status: number;
+  contentType?: string;
+  // Text responses only, up to the capture limit
+  responseBody?: string;
+  startedAt: number;
+  duration: number;
+  // Chosen by the user, unused exchanges are left out of generated tests
+  use?: NetworkUsage;
+}
+
 export interface TestSession {
   id: string;
   testName: string;
@@ -23,6 +66,8 @@ export interface TestSession {
     viewport: { width: number; height: number };
     userAgent: string;
     browser: string;
+    // Auth profile the session's browser started from, executions start from it too
+    authProfile?: string;
   };
 }
 
@@ -34,6 +79,24 @@ export interface SessionSettings {
   screenshotMode: 'none' | 'on-failure' | 'always';
   waitTimeout: number;
   assertionStrictness: 'strict' | 'loose';
+  // Emulation for the recording browser, replays and generated tests
+  contextOptions?: SessionContextOptions;
+}
+
+// Named like the Playwright context options they become
+export interface SessionContextOptions {
+  // Playwright device preset, e.g. "iPhone 13"; viewport overrides its screen size
+  device?: string;
+  viewport?: Viewport;
+  locale?: string;
+  // IANA time zone, e.g. "Europe/Berlin"
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  // Granted to every origin; "geolocation" is added when a geolocation is set
+  permissions?: string[];
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+  offline?: boolean;
 }
 
 export enum HealingStrategy {
@@ -44,14 +107,123 @@ export enum HealingStrategy {
   SEMANTIC_SIMILARITY = 'semantic_similarity'
 }
 
+export type BrowserType = 'chromium' | 'firefox' | 'webkit';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface BrowserContextConfig extends SessionContextOptions {
+  // Path of a saved storage state, see AuthProfileStore
+  storageState?: string;
+}
+
+// Cookies and local storage saved after a login, so later sessions can start signed in
+export interface AuthProfile {
+  name: string;
+  // Session the login was recorded in, exported suites replay it in their setup project
+  sourceSessionId: string;
+  // Origins with local storage and cookie domains in the saved state
+  origins: string[];
+  cookieCount: number;
+  createdAt: string;
+}
+
 export interface BrowserSession {
   sessionId: string;
   browser: any; // Playwright Browser instance
   context: any; // Playwright BrowserContext
   page: any; // Playwright Page
+  pages: any[]; // Every open Playwright Page of the context, popups included
   isRecording: boolean;
 }
 
+export type RecorderEventType =
+  | 'click'
+  | 'fill'
+  | 'select'
+  | 'check'
+  | 'uncheck'
+  | 'press'
+  | 'hover'
+  | 'upload'
+  | 'drag'
+  | 'scroll'
+  | 'assertion';
+
+// What an assertion step checks; steps without one check the element's text
+export type AssertionKind = 'text' | 'visible' | 'value' | 'checked' | 'url';
+
+// Shown by the in-page toolbar
+export type RecorderToolbarState = 'recording' | 'paused' | 'stopped';
+
+export type SelectorStrategy = 'testid' | 'role' | 'label' | 'placeholder' | 'text' | 'css';
+
+export interface SelectorCandidate {
+  selector: string;
+  strategy: SelectorStrategy;
+  // Elements the selector matched when it was recorded, 1 means unique
+  matches: number;
+}
+
+// What a recorded element looked like, kept in step.metadata.fingerprint to compare against later
+export interface ElementFingerprint {
+  tag: string;
+  id?: string;
+  classes: string[];
+  // Attributes that tend to identify an element, such as name, type, href and test ids
+  attributes: Record<string, string>;
+  role?: string;
+  accessibleName?: string;
+  text?: string;
+  // In page coordinates, so it does not depend on how far the page was scrolled
+  boundingBox: { x: number; y: number; width: number; height: number };
+  // Tag and position of every ancestor from the document down, through shadow hosts
+  domPath: string;
+  // Texts near the element that describe it: its labels, fieldset legend and preceding text
+  labels: string[];
+}
+
+// File inputs only expose names, the content is supplied when the test runs
+export interface RecordedFile {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+// Sent by the in-page recorder script through the exposed binding
+export interface RecorderEvent {
+  eventType: RecorderEventType;
+  selector: string;
+  candidates?: SelectorCandidate[];
+  value?: string;
+  // Selected option values of a select element
+  values?: string[];
+  // Playwright key description, e.g. "Enter" or "Control+Shift+K"
+  key?: string;
+  files?: RecordedFile[];
+  // First keystroke of a merged fill
+  startedAt?: number;
+  dropTarget?: Pick<RecorderEvent, 'selector' | 'candidates'>;
+  // Set on assertions picked from the toolbar, the expected text, value or URL is in value
+  assertion?: AssertionKind;
+  checked?: boolean;
+  // Set on fills of password and other sensitive fields, a name to derive the secret reference from
+  sensitive?: string;
+  // Sent for clicks, fills and assertions on elements
+  fingerprint?: ElementFingerprint;
+  sequence: number;
+  timestamp: number;
+  url: string;
+}
+
+export interface RecorderFrameInfo {
+  url: string;
+  name: string;
+  isMainFrame: boolean;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -62,7 +234,9 @@ export interface ApiResponse<T = any> {
 export interface CreateSessionRequest {
   testName: string;
   targetUrl: string;
+  browser?: BrowserType;
   settings?: Partial<SessionSettings>;
+  authProfile?: string;
 }
 
 export interface AddStepRequest {
@@ -76,6 +250,275 @@ export interface UpdateStepRequest {
   selector?: string;
   actionParams?: Record<string, any>;
   description?: string;
+  network?: NetworkExchange[];
+}
+
+export type ExecutionStatus = 'queued' | 'running' | 'passed' | 'failed' | 'error' | 'cancelled' | 'timedOut';
+
+export type ExecutionMode = 'replay' | 'spec';
+
+export type StepResultStatus = 'pending' | 'running' | 'passed' | 'failed' | 'healed' | 'skipped';
+
+export interface StepResult {
+  stepId: string;
+  stepIndex: number;
+  type: TestStep['type'];
+  description: string;
+  selector: string;
+  status: StepResultStatus;
+  healedSelector?: string;
+  attempts: number;
+  duration: number;
+  error?: string;
+  screenshot?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface SpecTestResult {
+  title: string;
+  project: string;
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  duration: number;
+  retry: number;
+  errors: string[];
+}
+
+export interface ExecutionSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  healed: number;
+  skipped: number;
+}
+
+export interface TestExecution {
+  id: string;
+  sessionId: string;
+  testName: string;
+  browser: BrowserType;
+  device?: string;
+  viewport?: Viewport;
+  matrixId?: string;
+  mode: ExecutionMode;
+  status: ExecutionStatus;
+  currentStepIndex: number;
+  stepResults: StepResult[];
+  specResults?: SpecTestResult[];
+  summary: ExecutionSummary;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  duration?: number;
+  error?: string;
+}
+
+export type StepComparisonChange = 'unchanged' | 'regressed' | 'fixed' | 'changed' | 'added' | 'removed';
+
+export interface StepComparison {
+  stepId: string;
+  description: string;
+  baseStatus: StepResultStatus | null;
+  headStatus: StepResultStatus | null;
+  change: StepComparisonChange;
+  durationDelta: number | null;
+  headError?: string;
+}
+
+export interface ExecutionComparison {
+  baseExecutionId: string;
+  headExecutionId: string;
+  baseStatus: ExecutionStatus;
+  headStatus: ExecutionStatus;
+  firstRegressedStep: StepComparison | null;
+  regressions: number;
+  fixes: number;
+  durationDelta: number | null;
+  steps: StepComparison[];
+}
+
+export interface ValidationIssue {
+  code: string;
+  message: string;
+  stepId?: string;
+  stepIndex?: number;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface SelectorMatchReport {
+  selector: string;
+  matches: number;
+  error?: string;
+}
+
+export interface StepSelectorReport {
+  stepId: string;
+  stepIndex: number;
+  primary: SelectorMatchReport;
+  fallbacks: SelectorMatchReport[];
+  replayError?: string;
+}
+
+export interface LiveValidationResult extends ValidationResult {
+  selectors: StepSelectorReport[];
+}
+
+export interface MatrixTarget extends BrowserContextConfig {
+  browser: BrowserType;
+}
+
+export interface ExecutionMatrixCell extends MatrixTarget {
+  executionId: string;
+  status: ExecutionStatus;
+  summary: ExecutionSummary;
+  duration?: number;
+  error?: string;
+}
+
+export interface ExecutionMatrix {
+  id: string;
+  sessionId: string;
+  status: ExecutionStatus;
+  cells: ExecutionMatrixCell[];
+}
+
+export type StepStabilityVerdict = 'stable' | 'flaky' | 'failing';
+
+export interface StepStability {
+  stepId: string;
+  stepIndex: number;
+  description: string;
+  runs: number;
+  passed: number;
+  healed: number;
+  failed: number;
+  skipped: number;
+  retried: number;
+  flakinessScore: number;
+  verdict: StepStabilityVerdict;
+  passedInconsistently: boolean;
+  healedInconsistently: boolean;
+  failingBrowsers: BrowserType[];
+  healedSelectors: string[];
+  errors: string[];
+}
+
+export interface StabilityRun {
+  executionId: string;
+  browser: BrowserType;
+  status: ExecutionStatus;
+  duration?: number;
+}
+
+export interface StabilityReport {
+  checkId: string;
+  sessionId: string;
+  status: ExecutionStatus;
+  browsers: BrowserType[];
+  totalRuns: number;
+  completedRuns: number;
+  passRate: number;
+  ready: boolean;
+  runs: StabilityRun[];
+  steps: StepStability[];
+  inconsistentSteps: string[];
+  inconsistentlyHealedSteps: string[];
+}
+
+export type ArtifactType = 'trace' | 'video' | 'har' | 'screenshot' | 'other';
+
+export interface Artifact {
+  path: string;
+  type: ArtifactType;
+  size: number;
+  createdAt: string;
+  executionId?: string;
+}
+
+export interface TestSchedule {
+  id: string;
+  name: string;
+  cron: string;
+  sessionIds: string[];
+  browsers: BrowserType[];
+  mode: ExecutionMode;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastExecutionIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  cron: string;
+  sessionIds: string[];
+  browsers?: BrowserType[];
+  mode?: ExecutionMode;
+  enabled?: boolean;
+}
+
+export interface ExecutionStepEvent {
+  sessionId: string;
+  executionId: string;
+  result: StepResult;
+}
+
+// Actions the app can run on a session's browser over the browser:action event
+export type BrowserAction =
+  | { type: 'navigate'; url: string }
+  | { type: 'back' | 'forward' | 'reload' }
+  | { type: 'click'; selector: string }
+  | { type: 'type'; selector: string; text: string }
+  // Without a selector the key goes to whatever has focus
+  | { type: 'press'; key: string; selector?: string }
+  | { type: 'setViewport'; width: number; height: number }
+  | { type: 'screenshot'; fullPage?: boolean };
+
+// What other clients in the session room see of an action; typed text may be a password
+export type BroadcastBrowserAction =
+  | Exclude<BrowserAction, { type: 'type' }>
+  | Omit<Extract<BrowserAction, { type: 'type' }>, 'text'>;
+
+export interface BrowserActionRequest {
+  sessionId: string;
+  action: BrowserAction;
+  // Adds the action to the session's steps; viewport changes are never recorded
+  record?: boolean;
+  // Popup or tab to act on, the main page when unset
+  pageAlias?: string;
+}
+
+export interface BrowserActionResult {
+  action: BrowserAction['type'];
+  url: string;
+  title: string;
+  viewport: { width: number; height: number } | null;
+  // Base64 encoded PNG of screenshot actions
+  screenshot?: string;
+  step?: TestStep;
+}
+
+// Input from the live view; coordinates are CSS pixels in the streamed page's viewport
+export type ScreencastInput =
+  | { type: 'mousemove' | 'mousedown' | 'mouseup'; x: number; y: number; button?: 'left' | 'right' | 'middle'; clickCount?: number }
+  | { type: 'wheel'; x: number; y: number; deltaX: number; deltaY: number }
+  | { type: 'keydown' | 'keyup'; key: string };
+
+export interface ScreencastFrame {
+  sessionId: string;
+  // Base64 encoded JPEG
+  data: string;
+  // Viewport size the frame shows, input coordinates are scaled to it
+  width: number;
+  height: number;
+  url: string;
 }
 
 export interface WebSocketEvents {
@@ -86,5 +529,30 @@ export interface WebSocketEvents {
   'recording:resumed': { sessionId: string };
   'recording:ended': { sessionId: string };
   'session:error': { sessionId: string; error: string };
-  'browser:action': { sessionId: string; action: any };
+  'browser:action': { sessionId: string; action: BroadcastBrowserAction; result: BrowserActionResult };
+  'screencast:frame': ScreencastFrame;
+  'screencast:stopped': { sessionId: string };
+  'execution:started': {
+    sessionId: string;
+    executionId: string;
+    browser: BrowserType;
+    device?: string;
+    matrixId?: string;
+    totalSteps: number;
+    startedAt: string;
+  };
+  'step:running': ExecutionStepEvent;
+  'step:passed': ExecutionStepEvent;
+  'step:failed': ExecutionStepEvent;
+  'step:healed': ExecutionStepEvent;
+  'execution:finished': {
+    sessionId: string;
+    executionId: string;
+    status: ExecutionStatus;
+    summary: ExecutionSummary;
+    startedAt?: string;
+    finishedAt?: string;
+    duration?: number;
+    error?: string;
+  };
 }
\ No newline at end of file
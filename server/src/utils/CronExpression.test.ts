@@ -0,0 +1,116 @@
+import { CronExpression } from './CronExpression';
+
+// jest.config.js runs the tests in Europe/Berlin
+const at = (local: string) => new Date(local);
+
+describe('CronExpression', () => {
+  describe('parsing', () => {
+    it('accepts lists, ranges, steps and names', () => {
+      for (const expression of ['*/15 * * * *', '0 9-17 * * mon-fri', '5,35 */2 1,15 jan-jun 0', '5/20 * * * *', '0 0 * * 7']) {
+        expect(CronExpression.isValid(expression)).toBe(true);
+      }
+    });
+
+    it('expands macros', () => {
+      expect(new CronExpression('@daily').next(at('2026-05-10T13:00:00'))).toEqual(at('2026-05-11T00:00:00'));
+      expect(new CronExpression('@hourly').next(at('2026-05-10T13:20:00'))).toEqual(at('2026-05-10T14:00:00'));
+    });
+
+    it('rejects the wrong number of fields', () => {
+      expect(() => new CronExpression('* * * *')).toThrow('expected 5 fields, got 4');
+      expect(() => new CronExpression('* * * * * *')).toThrow('expected 5 fields, got 6');
+    });
+
+    it.each([
+      ['60 * * * *', 'Invalid minute "60"'],
+      ['* 24 * * *', 'Invalid hour "24"'],
+      ['* * 0 * *', 'Invalid day of month "0"'],
+      ['* * * 13 *', 'Invalid month "13"'],
+      ['* * * * 8', 'Invalid day of week "8"'],
+      ['* * * foo *', 'Invalid month "foo"'],
+      ['*/0 * * * *', 'Invalid step "0"'],
+      ['*/x * * * *', 'Invalid step "x"'],
+      ['30-10 * * * *', 'Invalid range "30-10"'],
+      ['1- * * * *', 'Invalid minute ""']
+    ])('rejects %s', (expression, message) => {
+      expect(() => new CronExpression(expression)).toThrow(message);
+    });
+  });
+
+  describe('next', () => {
+    it('returns the first fire time strictly after the given time', () => {
+      const cron = new CronExpression('30 9 * * *');
+
+      expect(cron.next(at('2026-05-10T09:00:00'))).toEqual(at('2026-05-10T09:30:00'));
+      expect(cron.next(at('2026-05-10T09:30:00'))).toEqual(at('2026-05-11T09:30:00'));
+      expect(cron.next(at('2026-05-10T09:29:59'))).toEqual(at('2026-05-10T09:30:00'));
+    });
+
+    it('steps from the start of a range', () => {
+      const cron = new CronExpression('5/20 * * * *');
+
+      expect(cron.next(at('2026-05-10T10:00:00'))).toEqual(at('2026-05-10T10:05:00'));
+      expect(cron.next(at('2026-05-10T10:05:00'))).toEqual(at('2026-05-10T10:25:00'));
+      expect(cron.next(at('2026-05-10T10:45:00'))).toEqual(at('2026-05-10T11:05:00'));
+    });
+
+    it('rolls over months and years', () => {
+      expect(new CronExpression('0 0 1 * *').next(at('2026-01-31T12:00:00'))).toEqual(at('2026-02-01T00:00:00'));
+      expect(new CronExpression('0 0 1 1 *').next(at('2026-06-01T00:00:00'))).toEqual(at('2027-01-01T00:00:00'));
+    });
+
+    it('skips months without the day', () => {
+      expect(new CronExpression('0 12 31 * *').next(at('2026-04-01T00:00:00'))).toEqual(at('2026-05-31T12:00:00'));
+      expect(new CronExpression('0 0 29 2 *').next(at('2026-03-01T00:00:00'))).toEqual(at('2028-02-29T00:00:00'));
+    });
+
+    it('treats 0 and 7 as Sunday', () => {
+      // 2026-05-10 is a Sunday
+      expect(new CronExpression('0 8 * * 7').next(at('2026-05-04T00:00:00'))).toEqual(at('2026-05-10T08:00:00'));
+      expect(new CronExpression('0 8 * * sun').next(at('2026-05-04T00:00:00'))).toEqual(at('2026-05-10T08:00:00'));
+    });
+
+    it('matches either restricted day of month or day of week', () => {
+      // The 13th or any Friday; 2026-05-08 is a Friday
+      const cron = new CronExpression('0 0 13 * fri');
+
+      expect(cron.next(at('2026-05-01T00:00:00'))).toEqual(at('2026-05-08T00:00:00'));
+      expect(cron.next(at('2026-05-08T00:00:00'))).toEqual(at('2026-05-13T00:00:00'));
+    });
+
+    it('requires both when only one of the day fields is a wildcard', () => {
+      // Every weekday, any day of month
+      expect(new CronExpression('0 9 * * mon-fri').next(at('2026-05-09T00:00:00'))).toEqual(at('2026-05-11T09:00:00'));
+    });
+
+    it('throws for expressions that never fire', () => {
+      expect(() => new CronExpression('0 0 30 2 *').next(at('2026-01-01T00:00:00'))).toThrow('has no upcoming fire time');
+    });
+
+    describe('around daylight saving time', () => {
+      it('does not fire a time skipped when clocks go forward that day', () => {
+        // 2026-03-29 02:00 CET jumps to 03:00 CEST
+        const cron = new CronExpression('30 2 * * *');
+
+        expect(cron.next(at('2026-03-28T12:00:00'))).toEqual(at('2026-03-30T02:30:00'));
+      });
+
+      it('fires a repeated time once when clocks go back', () => {
+        // 2026-10-25 03:00 CEST falls back to 02:00 CET
+        const cron = new CronExpression('30 2 * * *');
+        const first = cron.next(at('2026-10-24T12:00:00'));
+
+        expect(first).toEqual(new Date('2026-10-25T02:30:00+02:00'));
+        expect(cron.next(first)).toEqual(at('2026-10-26T02:30:00'));
+      });
+
+      it('keeps hourly schedules an hour apart across the change', () => {
+        const cron = new CronExpression('0 * * * *');
+        const first = cron.next(new Date('2026-03-29T01:30:00+01:00'));
+
+        expect(first).toEqual(new Date('2026-03-29T03:00:00+02:00'));
+        expect(first.getTime() - new Date('2026-03-29T01:00:00+01:00').getTime()).toBe(60 * 60 * 1000);
+      });
+    });
+  });
+});
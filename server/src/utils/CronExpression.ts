@@ -0,0 +1,183 @@
+interface FieldRange {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELD_RANGES: FieldRange[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+  },
+  // Both 0 and 7 mean Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Stop searching after this long, e.g. for "0 0 30 2 *" which never fires
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Standard five-field cron expression (minute, hour, day of month, month, day of week),
+ * evaluated in the server's local time zone. A time skipped when clocks go forward does not
+ * fire that day, and a time repeated when they go back fires once.
+ */
+export class CronExpression {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(readonly expression: string) {
+    const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const fields = normalized.split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      this.parseField(field, FIELD_RANGES[index]!)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = daysOfWeek;
+    this.dayOfMonthRestricted = !fields[2]!.startsWith('*');
+    this.dayOfWeekRestricted = !fields[4]!.startsWith('*');
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      new CronExpression(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the first fire time strictly after `from`.
+   */
+  next(from: Date = new Date()): Date {
+    const date = new Date(from);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = from.getTime() + SEARCH_LIMIT_MS;
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return date;
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no upcoming fire time`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    // Like cron, a restricted day of month and day of week match when either one does
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private parseField(field: string, range: FieldRange): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [rangePart, stepPart] = part.split('/');
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepPart}" in ${range.name} field of "${this.expression}"`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (rangePart === '*') {
+        start = range.min;
+        end = range.max;
+      } else if (rangePart?.includes('-')) {
+        const [low, high] = rangePart.split('-');
+        start = this.parseValue(low, range);
+        end = this.parseValue(high, range);
+      } else {
+        start = this.parseValue(rangePart, range);
+        // "5/15" means every 15 starting at 5
+        end = stepPart === undefined ? start : range.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${rangePart}" in ${range.name} field of "${this.expression}"`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private parseValue(value: string | undefined, range: FieldRange): number {
+    const nameIndex = value ? range.names?.indexOf(value.toLowerCase()) ?? -1 : -1;
+    const parsed = nameIndex !== -1 ? nameIndex + range.min : Number(value);
+
+    if (!value || !Number.isInteger(parsed) || parsed < range.min || parsed > range.max) {
+      throw new Error(`Invalid ${range.name} "${value}" in "${this.expression}"`);
+    }
+
+    return parsed;
+  }
+}
@@ -0,0 +1,125 @@
+import { ExecutionComparator } from './ExecutionComparator';
+import { StepResult, StepResultStatus, TestExecution } from '../types';
+
+type Outcome = [stepId: string, status: StepResultStatus, duration?: number, error?: string];
+
+function run(id: string, outcomes: Outcome[], duration?: number): TestExecution {
+  const stepResults: StepResult[] = outcomes.map(([stepId, status, stepDuration = 100, error], index) => ({
+    stepId,
+    stepIndex: index,
+    type: 'click',
+    description: `Click ${stepId}`,
+    selector: `#${stepId}`,
+    status,
+    attempts: 1,
+    duration: stepDuration,
+    ...(error && { error })
+  }));
+  const failed = stepResults.some(result => result.status === 'failed');
+
+  return {
+    id,
+    sessionId: 'session-1',
+    testName: 'Checkout',
+    browser: 'chromium',
+    mode: 'replay',
+    status: failed ? 'failed' : 'passed',
+    currentStepIndex: stepResults.length - 1,
+    stepResults,
+    summary: { total: stepResults.length, passed: 0, failed: 0, healed: 0, skipped: 0 },
+    createdAt: '2026-05-10T12:00:00.000Z',
+    ...(duration !== undefined && { duration })
+  };
+}
+
+describe('ExecutionComparator', () => {
+  const comparator = new ExecutionComparator();
+
+  it('reports steps with the same status as unchanged', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'passed'], ['b', 'healed']]),
+      run('head', [['a', 'passed'], ['b', 'healed']])
+    );
+
+    expect(comparison.steps.map(step => step.change)).toEqual(['unchanged', 'unchanged']);
+    expect(comparison.regressions).toBe(0);
+    expect(comparison.fixes).toBe(0);
+    expect(comparison.firstRegressedStep).toBeNull();
+  });
+
+  it('counts passed or healed steps that now fail as regressions and names the first one', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'passed'], ['b', 'healed'], ['c', 'passed']]),
+      run('head', [['a', 'passed'], ['b', 'failed', 100, 'Timeout 30000ms exceeded'], ['c', 'failed']])
+    );
+
+    expect(comparison.steps.map(step => step.change)).toEqual(['unchanged', 'regressed', 'regressed']);
+    expect(comparison.regressions).toBe(2);
+    expect(comparison.baseStatus).toBe('passed');
+    expect(comparison.headStatus).toBe('failed');
+    expect(comparison.firstRegressedStep).toMatchObject({
+      stepId: 'b',
+      baseStatus: 'healed',
+      headStatus: 'failed',
+      headError: 'Timeout 30000ms exceeded'
+    });
+  });
+
+  it('counts failed steps that now pass or heal as fixes', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'failed'], ['b', 'failed']]),
+      run('head', [['a', 'passed'], ['b', 'healed']])
+    );
+
+    expect(comparison.steps.map(step => step.change)).toEqual(['fixed', 'fixed']);
+    expect(comparison.fixes).toBe(2);
+    expect(comparison.regressions).toBe(0);
+  });
+
+  it('reports other status changes, e.g. to skipped, as changed', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'passed'], ['b', 'failed']]),
+      run('head', [['a', 'skipped'], ['b', 'skipped']])
+    );
+
+    expect(comparison.steps.map(step => step.change)).toEqual(['changed', 'changed']);
+    expect(comparison.regressions).toBe(0);
+    expect(comparison.fixes).toBe(0);
+  });
+
+  it('lists steps only in the head run as added and steps only in the base run as removed, last', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'passed'], ['old', 'passed']]),
+      run('head', [['new', 'passed'], ['a', 'passed']])
+    );
+
+    expect(comparison.steps.map(step => [step.stepId, step.change, step.baseStatus, step.headStatus])).toEqual([
+      ['new', 'added', null, 'passed'],
+      ['a', 'unchanged', 'passed', 'passed'],
+      ['old', 'removed', 'passed', null]
+    ]);
+    expect(comparison.steps.find(step => step.stepId === 'old')?.description).toBe('Click old');
+  });
+
+  it('reports duration deltas of the run and of steps in both runs', () => {
+    const comparison = comparator.compare(
+      run('base', [['a', 'passed', 120], ['old', 'passed', 50]], 1500),
+      run('head', [['a', 'passed', 80], ['new', 'passed', 40]], 1800)
+    );
+
+    expect(comparison.durationDelta).toBe(300);
+    expect(comparison.steps.map(step => [step.stepId, step.durationDelta])).toEqual([
+      ['a', -40],
+      ['new', null],
+      ['old', null]
+    ]);
+  });
+
+  it('leaves the run duration delta out when a run has no duration', () => {
+    const comparison = comparator.compare(run('base', [['a', 'passed']]), run('head', [['a', 'passed']], 900));
+
+    expect(comparison.durationDelta).toBeNull();
+    expect(comparison.baseExecutionId).toBe('base');
+    expect(comparison.headExecutionId).toBe('head');
+  });
+});
@@ -0,0 +1,70 @@
+import { ExecutionComparison, StepComparison, StepComparisonChange, StepResult, StepResultStatus, TestExecution } from '../types';
+
+const SUCCESS_STATUSES: StepResultStatus[] = ['passed', 'healed'];
+
+export class ExecutionComparator {
+  compare(base: TestExecution, head: TestExecution): ExecutionComparison {
+    const baseResults = new Map(base.stepResults.map(result => [result.stepId, result]));
+    const headStepIds = new Set(head.stepResults.map(result => result.stepId));
+
+    const steps: StepComparison[] = head.stepResults.map(headResult =>
+      this.compareStep(baseResults.get(headResult.stepId), headResult)
+    );
+
+    // Steps that only exist in the base run were removed from the session since
+    for (const baseResult of base.stepResults) {
+      if (!headStepIds.has(baseResult.stepId)) {
+        steps.push(this.compareStep(baseResult, undefined));
+      }
+    }
+
+    const regressions = steps.filter(step => step.change === 'regressed');
+
+    return {
+      baseExecutionId: base.id,
+      headExecutionId: head.id,
+      baseStatus: base.status,
+      headStatus: head.status,
+      firstRegressedStep: regressions[0] || null,
+      regressions: regressions.length,
+      fixes: steps.filter(step => step.change === 'fixed').length,
+      durationDelta: base.duration !== undefined && head.duration !== undefined
+        ? head.duration - base.duration
+        : null,
+      steps
+    };
+  }
+
+  private compareStep(base: StepResult | undefined, head: StepResult | undefined): StepComparison {
+    const reference = (head || base)!;
+    const comparison: StepComparison = {
+      stepId: reference.stepId,
+      description: reference.description,
+      baseStatus: base?.status || null,
+      headStatus: head?.status || null,
+      change: this.classifyChange(base?.status, head?.status),
+      durationDelta: base && head ? head.duration - base.duration : null
+    };
+
+    if (head?.error) {
+      comparison.headError = head.error;
+    }
+
+    return comparison;
+  }
+
+  private classifyChange(
+    baseStatus: StepResultStatus | undefined,
+    headStatus: StepResultStatus | undefined
+  ): StepComparisonChange {
+    if (!baseStatus) return 'added';
+    if (!headStatus) return 'removed';
+    if (baseStatus === headStatus) return 'unchanged';
+
+    const baseSucceeded = SUCCESS_STATUSES.includes(baseStatus);
+    if (baseSucceeded && headStatus === 'failed') return 'regressed';
+    if (baseStatus === 'failed' && SUCCESS_STATUSES.includes(headStatus)) return 'fixed';
+
+    return 'changed';
+  }
+}
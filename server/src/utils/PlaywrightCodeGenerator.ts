@@ -1,69 +1,330 @@
-import { TestSession, TestStep } from '../types';
+import { BrowserType, MatrixTarget, NetworkExchange, RecordedFile, SessionContextOptions, TestSession, TestStep } from '../types';
+import { secretEnvName } from './secrets';
+
+export interface PlaywrightConfigOptions {
+  projects?: MatrixTarget[];
+  webServer?: boolean;
+  // Keep trace, video and screenshots for every test instead of only failures
+  recordArtifacts?: boolean;
+  // Adds a setup project that signs in and saves this auth profile's storage state for the others
+  authProfile?: string;
+  // Loads secrets from a .env file next to the config
+  loadEnv?: boolean;
+}
+
+type HistoryMove = 'back' | 'forward' | 'reload';
+
+const HISTORY_METHODS: Record<HistoryMove, string> = {
+  back: 'goBack',
+  forward: 'goForward',
+  reload: 'reload'
+};
+
+const PROJECT_DEVICES: Record<BrowserType, string> = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari'
+};
+
+const DEFAULT_PROJECTS = [
+  { name: 'chromium', device: 'Desktop Chrome' },
+  { name: 'firefox', device: 'Desktop Firefox' },
+  { name: 'webkit', device: 'Desktop Safari' },
+  { name: 'mobile-chrome', device: 'Pixel 5' },
+  { name: 'mobile-safari', device: 'iPhone 12' }
+];
 
 export class PlaywrightCodeGenerator {
   generatePlaywrightTest(session: TestSession): string {
-    const imports = this.generateImports();
+    const usesNetwork = session.steps.some(step => step.network?.some(exchange => exchange.use));
+    const contextOptions = session.settings.contextOptions || {};
+    const imports = this.generateImports(usesNetwork, Boolean(contextOptions.device));
+    const testUse = this.generateTestUse(contextOptions);
     const testFunction = this.generateTestFunction(session);
-    const helperFunctions = this.generateHelperFunctions();
+    const helperFunctions = this.generateHelperFunctions(usesNetwork);
 
-    return `${imports}\n\n${testFunction}\n\n${helperFunctions}`;
+    return `${imports}\n\n${testUse ? `${testUse}\n\n` : ''}${testFunction}\n\n${helperFunctions}`;
   }
 
-  private generateImports(): string {
-    return `import { test, expect, Page } from '@playwright/test';`;
+  private generateImports(usesNetwork: boolean, usesDevices = false): string {
+    return `import { test, expect,${usesDevices ? ' devices,' : ''} FrameLocator, Locator, Page${usesNetwork ? ', Request' : ''} } from '@playwright/test';`;
+  }
+
+  // The browser context the session was recorded in, applied to every project the test runs in
+  private generateTestUse(options: SessionContextOptions): string {
+    const properties = [
+      options.device ? `...devices[${this.quote(options.device)}]` : '',
+      options.viewport ? `viewport: { width: ${options.viewport.width}, height: ${options.viewport.height} }` : '',
+      ...this.environmentProperties(options)
+    ].filter(Boolean);
+
+    if (properties.length === 0) return '';
+    return `test.use({
+${properties.map(property => `  ${property},`).join('\n')}
+});`;
+  }
+
+  // Everything but the device and viewport, which projects already set
+  private environmentProperties(options: SessionContextOptions): string[] {
+    const permissions = new Set(options.permissions);
+    // Same as the recording browser: a geolocation comes with the permission to read it
+    if (options.geolocation) permissions.add('geolocation');
+    const geolocation = options.geolocation && [
+      `latitude: ${options.geolocation.latitude}`,
+      `longitude: ${options.geolocation.longitude}`,
+      options.geolocation.accuracy !== undefined ? `accuracy: ${options.geolocation.accuracy}` : ''
+    ].filter(Boolean).join(', ');
+
+    return [
+      options.locale ? `locale: ${this.quote(options.locale)}` : '',
+      options.timezoneId ? `timezoneId: ${this.quote(options.timezoneId)}` : '',
+      geolocation ? `geolocation: { ${geolocation} }` : '',
+      permissions.size > 0 ? `permissions: [${[...permissions].map(permission => this.quote(permission)).join(', ')}]` : '',
+      options.colorScheme ? `colorScheme: ${this.quote(options.colorScheme)}` : '',
+      options.reducedMotion ? `reducedMotion: ${this.quote(options.reducedMotion)}` : '',
+      options.offline !== undefined ? `offline: ${options.offline}` : ''
+    ].filter(Boolean);
   }
 
   private generateTestFunction(session: TestSession): string {
     const testName = session.testName;
-    const steps = session.steps.map(step => this.generateStepCode(step)).join('\n');
 
-    return `test('${testName}', async ({ page }) => {
-${steps}
+    return `test(${this.quote(testName)}, async (${this.fixturesOf(session.steps)}) => {
+${this.generateSteps(session.steps)}
+});`;
+  }
+
+  private generateSteps(steps: TestStep[]): string {
+    return steps
+      .map((step, index) => [
+        this.comment(step.description),
+        this.generateNetworkHooks(step, index, this.generatePopupWait(step, this.generateStepCode(step)))
+      ].join('\n'))
+      .join('\n');
+  }
+
+  // Descriptions quote recorded text, which may span lines; a line break would end the comment
+  private comment(text: string): string {
+    return `  // ${text.replace(/\s*[\r\n\u2028\u2029]+\s*/g, ' ')}`;
+  }
+
+  private fixturesOf(steps: TestStep[]): string {
+    return steps.some(step => step.popupAlias) ? '{ page, context }' : '{ page }';
+  }
+
+  /**
+   * Setup test for the projects of a suite recorded with an auth profile: replays the session
+   * the profile was saved from and stores the resulting storage state where the projects
+   * read it.
+   */
+  generateAuthSetup(authProfile: string, loginSession: TestSession | null): string {
+    const authFile = this.authStatePath(authProfile);
+
+    if (!loginSession) {
+      return `import { test } from '@playwright/test';
+
+const authFile = ${this.quote(authFile)};
+
+test(${this.quote(`authenticate as ${authProfile}`)}, async () => {
+  throw new Error(${this.quote(`The session the ${authProfile} auth profile was saved from no longer exists. Record the login again, or save a storage state to `)} + authFile);
 });`;
+    }
+
+    const usesNetwork = loginSession.steps.some(step => step.network?.some(exchange => exchange.use));
+
+    return `${this.generateImports(usesNetwork)}
+
+const authFile = ${this.quote(authFile)};
+
+test(${this.quote(`authenticate as ${authProfile}`)}, async (${this.fixturesOf(loginSession.steps)}) => {
+${this.generateSteps(loginSession.steps)}
+
+  await page.context().storageState({ path: authFile });
+});
+
+${this.generateHelperFunctions(usesNetwork)}`;
+  }
+
+  // Relative to the exported project, kept out of version control by its .gitignore
+  authStatePath(authProfile: string): string {
+    return `playwright/.auth/${authProfile}.json`;
   }
 
   private generateStepCode(step: TestStep): string {
     const indent = '  ';
+    const params = step.actionParams || {};
+    // Steps on popups run against the page variable their opening step declared
+    const page = step.pageAlias || 'page';
+    const element = `(${this.locate(page, step.selector, step.fallbackSelectors, step.frameSelectors)})`;
     
     switch (step.type) {
       case 'navigate':
-        return `${indent}// ${step.description}
-${indent}await page.goto('${step.actionParams?.url || step.selector}');`;
+        // Back, forward and reload steps repeat the history move, the URL is where it led when recorded
+        if (params['history']) {
+          return `${indent}await ${page}.${HISTORY_METHODS[params['history'] as HistoryMove]}();`;
+        }
+        return `${indent}await ${page}.goto(${this.quote(params['url'] || step.selector)});`;
       
       case 'click':
-        return `${indent}// ${step.description}
-${indent}await findElementWithHealing(page, '${step.selector}', ${JSON.stringify(step.fallbackSelectors || [])}).click();`;
+        return `${indent}await ${element}.click();`;
       
-      case 'fill':
-        return `${indent}// ${step.description}
-${indent}await findElementWithHealing(page, '${step.selector}', ${JSON.stringify(step.fallbackSelectors || [])}).fill('${step.actionParams?.value || ''}');`;
+      case 'fill': {
+        const value = params['secret'] ? this.envReference(params['secret']) : this.quote(params['value'] || '');
+        return `${indent}await ${element}.fill(${value});`;
+      }
       
-      case 'select':
-        return `${indent}// ${step.description}
-${indent}await findElementWithHealing(page, '${step.selector}', ${JSON.stringify(step.fallbackSelectors || [])}).selectOption('${step.actionParams?.value || ''}');`;
+      case 'select': {
+        const value = Array.isArray(params['value'])
+          ? `[${params['value'].map(option => this.quote(option)).join(', ')}]`
+          : this.quote(params['value'] || '');
+        return `${indent}await ${element}.selectOption(${value});`;
+      }
+
+      case 'check':
+        return `${indent}await ${element}.check();`;
+
+      case 'uncheck':
+        return `${indent}await ${element}.uncheck();`;
+
+      case 'press':
+        return `${indent}await ${step.selector ? element : `${page}.keyboard`}.press(${this.quote(params['key'] || '')});`;
+
+      case 'hover':
+        return `${indent}await ${element}.hover();`;
+
+      case 'upload': {
+        // Recordings only know file names, the files themselves are expected under fixtures/
+        const files = (params['files'] || []) as RecordedFile[];
+        return `${indent}await ${element}.setInputFiles([${files.map(file => this.quote(`fixtures/${file.name}`)).join(', ')}]);`;
+      }
+
+      case 'drag':
+        return `${indent}await ${element}.dragTo(${this.locate(page, params['targetSelector'] || '', params['targetFallbackSelectors'], step.frameSelectors)});`;
+
+      case 'scroll':
+        return `${indent}await ${element}.scrollIntoViewIfNeeded();`;
       
       case 'wait':
-        return `${indent}// ${step.description}
-${indent}await smartWait(page, '${step.actionParams?.condition || 'networkidle'}', ${step.actionParams?.timeout || 5000});`;
+        return `${indent}await smartWait(${page}, ${this.quote(params['condition'] || 'networkidle')}, ${params['timeout'] || 5000});`;
       
       case 'assertion':
-        return `${indent}// ${step.description}
-${indent}await expect(findElementWithHealing(page, '${step.selector}', ${JSON.stringify(step.fallbackSelectors || [])})).toContainText('${step.actionParams?.expectedText || ''}');`;
+        return `${indent}${this.generateAssertion(page, element, params)}`;
       
       case 'screenshot':
-        return `${indent}// ${step.description}
-${indent}await page.screenshot({ path: 'test-results/${step.actionParams?.filename || 'screenshot'}.png', fullPage: true });`;
+        return `${indent}await ${page}.screenshot({ path: ${this.quote(`test-results/${params['filename'] || 'screenshot'}.png`)}, fullPage: true });`;
       
       default:
-        return `${indent}// Unknown step type: ${step.type}`;
+        return this.comment(`Unknown step type: ${step.type}`);
     }
   }
 
-  private generateHelperFunctions(): string {
-    return `// Self-healing helper functions
-async function findElementWithHealing(page: Page, selector: string, fallbackSelectors: string[] = []): Promise<any> {
+  private generateAssertion(page: string, element: string, params: NonNullable<TestStep['actionParams']>): string {
+    switch (params['assertion']) {
+      case 'url':
+        return `await expect(${page}).toHaveURL(${this.quote(params['expectedUrl'] || '')});`;
+      case 'visible':
+        return `await expect(${element}).toBeVisible();`;
+      case 'value':
+        return `await expect(${element}).toHaveValue(${this.quote(params['expectedValue'] ?? '')});`;
+      case 'checked':
+        return params['checked']
+          ? `await expect(${element}).toBeChecked();`
+          : `await expect(${element}).not.toBeChecked();`;
+      default:
+        return `await expect(${element}).toContainText(${this.quote(params['expectedText'] || '')});`;
+    }
+  }
+
+  private locate(page: string, selector: string, fallbackSelectors: string[] = [], frameSelectors: string[] = []): string {
+    const scope = frameSelectors.map(frameSelector => `.frameLocator(${this.quote(frameSelector)})`).join('');
+    return `await findElementWithHealing(${page}${scope}, ${this.quote(selector)}, ${JSON.stringify(fallbackSelectors)})`;
+  }
+
+  // Wraps the action of a step that opened a popup so the test picks up the new page
+  private generatePopupWait(step: TestStep, code: string): string {
+    if (!step.popupAlias) return code;
+
+    const indent = '  ';
+    return [
+      `${indent}const ${step.popupAlias}Promise = context.waitForEvent('page');`,
+      code,
+      `${indent}const ${step.popupAlias} = await ${step.popupAlias}Promise;`,
+      `${indent}await ${step.popupAlias}.waitForLoadState();`
+    ].join('\n');
+  }
+
+  // Registers mocks for captured responses before the step's action and waits for the others after it
+  private generateNetworkHooks(step: TestStep, stepIndex: number, code: string): string {
+    const exchanges = (step.network || []).filter(exchange => exchange.use);
+    if (exchanges.length === 0) return code;
+
+    const indent = '  ';
+    const page = step.pageAlias || 'page';
+    const before: string[] = [];
+    const after: string[] = [];
+
+    exchanges.forEach((exchange, exchangeIndex) => {
+      const request = `${this.quote(exchange.method)}, ${this.quote(exchange.url)}`;
+
+      if (exchange.use === 'mock') {
+        if (exchange.responseBody === undefined) {
+          before.push(this.comment(`The response body of ${exchange.method} ${exchange.url} was not captured`));
+        }
+        before.push(`${indent}await mockResponse(${page}, ${request}, ${this.fulfillOptions(exchange)});`);
+      } else {
+        const response = `step${stepIndex + 1}Response${exchangeIndex + 1}`;
+        before.push(`${indent}const ${response} = ${page}.waitForResponse(response => matchesRequest(response.request(), ${request}));`);
+        after.push(`${indent}await ${response};`);
+      }
+    });
+
+    return [...before, code, ...after].join('\n');
+  }
+
+  private fulfillOptions(exchange: NetworkExchange): string {
+    const options = [
+      `status: ${exchange.status}`,
+      ...(exchange.contentType ? [`contentType: ${this.quote(exchange.contentType)}`] : []),
+      `body: ${this.quote(exchange.responseBody ?? '')}`
+    ];
+    return `{ ${options.join(', ')} }`;
+  }
+
+  // Secrets the steps fill in, each read from its RECORDED_SECRET_ variable
+  secretsOf(steps: TestStep[]): string[] {
+    const secrets = steps
+      .filter(step => step.type === 'fill' && step.actionParams?.['secret'])
+      .map(step => String(step.actionParams?.['secret']));
+    return [...new Set(secrets)];
+  }
+
+  generateEnvExample(secrets: string[]): string {
+    return `# Values typed into sensitive fields while recording. Copy to .env, which must not be committed
+${secrets.map(secret => `${secretEnvName(secret)}=`).join('\n')}
+`;
+  }
+
+  // Selectors and recorded text routinely contain quotes, backslashes and newlines
+  private quote(value: unknown): string {
+    const escaped = String(value)
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\r/g, '\\r')
+      .replace(/\n/g, '\\n');
+    return `'${escaped}'`;
+  }
+
+  // Recorded secret names become environment variable names, anything else set by hand is indexed
+  private envReference(secret: string): string {
+    const name = secretEnvName(secret);
+    return /^[A-Za-z_]\w*$/.test(name) ? `process.env.${name}!` : `process.env[${this.quote(name)}]!`;
+  }
+
+  private generateHelperFunctions(usesNetwork: boolean): string {
+    return `${usesNetwork ? this.generateNetworkHelpers() : ''}// Self-healing helper functions
+async function findElementWithHealing(scope: Page | FrameLocator, selector: string, fallbackSelectors: string[] = []): Promise<Locator> {
   try {
-    const element = page.locator(selector);
+    const element = scope.locator(selector);
     await element.waitFor({ timeout: 5000 });
     return element;
   } catch (error) {
@@ -72,7 +333,7 @@ async function findElementWithHealing(page: Page, selector: string, fallbackSele
     for (const fallback of fallbackSelectors) {
       try {
         console.log(\`Trying fallback selector: \${fallback}\`);
-        const element = page.locator(fallback);
+        const element = scope.locator(fallback);
         await element.waitFor({ timeout: 5000 });
         return element;
       } catch (fallbackError) {
@@ -105,8 +366,44 @@ async function smartWait(page: Page, condition: string, timeout: number = 5000):
 }`;
   }
 
-  generatePlaywrightConfig(): string {
-    return `import { defineConfig, devices } from '@playwright/test';
+  private generateNetworkHelpers(): string {
+    return `// Captured requests are matched on method and URL without the query string, which often carries timestamps
+function matchesRequest(request: Request, method: string, url: string): boolean {
+  const expected = new URL(url);
+  const actual = new URL(request.url());
+  return request.method() === method && actual.origin === expected.origin && actual.pathname === expected.pathname;
+}
+
+async function mockResponse(page: Page, method: string, url: string, response: { status: number; contentType?: string; body: string }): Promise<void> {
+  await page.route('**/*', route => matchesRequest(route.request(), method, url) ? route.fulfill(response) : route.fallback());
+}
+
+`;
+  }
+
+  generatePlaywrightConfig(options: PlaywrightConfigOptions = {}): string {
+    const targets = options.projects
+      ? options.projects.map(target => this.generateProject(target, options.authProfile))
+      : DEFAULT_PROJECTS.map(({ name, device }) => this.generateProjectBlock(name, `...devices['${device}']`, options.authProfile));
+    const setup = options.authProfile
+      ? [`    {
+      name: 'setup',
+      testMatch: /.*\\.setup\\.ts/,
+    },`]
+      : [];
+    const projects = [...setup, ...targets].join('\n');
+
+    const webServer = options.webServer === false
+      ? ''
+      : `
+
+  webServer: {
+    command: 'npm run start',
+    url: 'http://localhost:3000',
+    reuseExistingServer: !process.env.CI,
+  },`;
+
+    return `${options.loadEnv ? "import 'dotenv/config';\n" : ''}import { defineConfig, devices } from '@playwright/test';
 
 export default defineConfig({
   testDir: './tests',
@@ -122,45 +419,54 @@ export default defineConfig({
   
   use: {
     baseURL: 'http://localhost:3000',
-    trace: 'on-first-retry',
-    screenshot: 'only-on-failure',
-    video: 'retain-on-failure',
+    trace: '${options.recordArtifacts ? 'on' : 'on-first-retry'}',
+    screenshot: '${options.recordArtifacts ? 'on' : 'only-on-failure'}',
+    video: '${options.recordArtifacts ? 'on' : 'retain-on-failure'}',
     actionTimeout: 10000,
     navigationTimeout: 30000,
   },
 
   projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
-    {
-      name: 'webkit',
-      use: { ...devices['Desktop Safari'] },
-    },
-    {
-      name: 'mobile-chrome',
-      use: { ...devices['Pixel 5'] },
-    },
-    {
-      name: 'mobile-safari',
-      use: { ...devices['iPhone 12'] },
-    },
-  ],
-
-  webServer: {
-    command: 'npm run start',
-    url: 'http://localhost:3000',
-    reuseExistingServer: !process.env.CI,
-  },
+${projects}
+  ],${webServer}
 });`;
   }
 
-  generatePackageJson(testName: string): string {
+  private generateProject(target: MatrixTarget, authProfile?: string): string {
+    const name = [target.browser, target.device, target.viewport && `${target.viewport.width}x${target.viewport.height}`]
+      .filter(Boolean)
+      .join('-')
+      .toLowerCase()
+      .replace(/\s+/g, '-');
+    const overrides = [
+      `browserName: '${target.browser}'`,
+      target.device && target.browser === 'firefox' ? 'isMobile: false' : '',
+      target.viewport ? `viewport: { width: ${target.viewport.width}, height: ${target.viewport.height} }` : '',
+      ...this.environmentProperties(target),
+      // With an auth profile the projects start from the state the setup project saves instead
+      target.storageState && !authProfile ? `storageState: ${this.quote(target.storageState)}` : ''
+    ].filter(Boolean).join(', ');
+
+    return this.generateProjectBlock(name, `...devices['${target.device || PROJECT_DEVICES[target.browser]}'], ${overrides}`, authProfile);
+  }
+
+  // Projects of a suite with an auth profile start from the state the setup project saved
+  private generateProjectBlock(name: string, use: string, authProfile?: string): string {
+    if (!authProfile) {
+      return `    {
+      name: '${name}',
+      use: { ${use} },
+    },`;
+    }
+
+    return `    {
+      name: '${name}',
+      use: { ${use}, storageState: ${this.quote(this.authStatePath(authProfile))} },
+      dependencies: ['setup'],
+    },`;
+  }
+
+  generatePackageJson(testName: string, loadEnv = false): string {
     return JSON.stringify({
       name: testName.toLowerCase().replace(/\s+/g, '-'),
       version: '1.0.0',
@@ -174,7 +480,8 @@ export default defineConfig({
         'install:browsers': 'playwright install'
       },
       devDependencies: {
-        '@playwright/test': '^1.40.0'
+        '@playwright/test': '^1.40.0',
+        ...(loadEnv && { dotenv: '^16.4.0' })
       }
     }, null, 2);
   }
@@ -0,0 +1,61 @@
+import { SelectorIssueCollector } from './SelectorIssueCollector';
+import { SelectorMatchReport, StepSelectorReport, ValidationIssue } from '../types';
+
+function collect(primary: SelectorMatchReport, fallbacks: SelectorMatchReport[] = []) {
+  const report: StepSelectorReport = { stepId: 'step-3', stepIndex: 2, primary, fallbacks };
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  new SelectorIssueCollector().collectIssues(report, errors, warnings);
+  return { errors, warnings };
+}
+
+describe('SelectorIssueCollector', () => {
+  it('reports nothing for a selector that matches exactly one element', () => {
+    expect(collect({ selector: '#buy', matches: 1 })).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports invalid, unmatched and ambiguous primary selectors as errors', () => {
+    expect(collect({ selector: '#buy[', matches: 0, error: 'Unexpected token' }).errors).toEqual([
+      { code: 'invalid-selector', message: 'Step 3: #buy[ is not a valid selector', stepId: 'step-3', stepIndex: 2 }
+    ]);
+    expect(collect({ selector: '#buy', matches: 0 }).errors).toEqual([
+      { code: 'selector-no-match', message: 'Step 3: #buy matches no elements', stepId: 'step-3', stepIndex: 2 }
+    ]);
+    expect(collect({ selector: 'button', matches: 4 }).errors).toEqual([{
+      code: 'selector-strict-violation',
+      message: 'Step 3: button matches 4 elements, which violates Playwright strict mode',
+      stepId: 'step-3',
+      stepIndex: 2
+    }]);
+  });
+
+  it('reports fallbacks that would not work as warnings', () => {
+    const { errors, warnings } = collect({ selector: '#buy', matches: 1 }, [
+      { selector: 'text=Buy', matches: 1 },
+      { selector: '.buy', matches: 0 },
+      { selector: 'xpath=//button[', matches: 0, error: 'Invalid XPath' },
+      { selector: 'button', matches: 3 }
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(warnings.map(warning => [warning.code, warning.message])).toEqual([
+      ['fallback-no-match', 'Step 3: fallback .buy matches no elements'],
+      ['fallback-no-match', 'Step 3: fallback xpath=//button[ matches no elements'],
+      ['fallback-multiple-matches', 'Step 3: fallback button matches 3 elements']
+    ]);
+  });
+
+  it('appends to the issues already collected for earlier steps', () => {
+    const errors: ValidationIssue[] = [{ code: 'replay-failed', message: 'earlier' }];
+    const warnings: ValidationIssue[] = [];
+
+    new SelectorIssueCollector().collectIssues(
+      { stepId: 'step-1', stepIndex: 0, primary: { selector: '#gone', matches: 0 }, fallbacks: [] },
+      errors,
+      warnings
+    );
+
+    expect(errors.map(error => error.code)).toEqual(['replay-failed', 'selector-no-match']);
+  });
+});
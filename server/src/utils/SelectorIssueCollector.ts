@@ -0,0 +1,37 @@
+import { StepSelectorReport, ValidationIssue } from '../types';
+
+export class SelectorIssueCollector {
+  collectIssues(report: StepSelectorReport, errors: ValidationIssue[], warnings: ValidationIssue[]): void {
+    const location = { stepId: report.stepId, stepIndex: report.stepIndex };
+    const stepNumber = report.stepIndex + 1;
+    const { primary } = report;
+
+    if (primary.error) {
+      errors.push({ code: 'invalid-selector', message: `Step ${stepNumber}: ${primary.selector} is not a valid selector`, ...location });
+    } else if (primary.matches === 0) {
+      errors.push({ code: 'selector-no-match', message: `Step ${stepNumber}: ${primary.selector} matches no elements`, ...location });
+    } else if (primary.matches > 1) {
+      errors.push({
+        code: 'selector-strict-violation',
+        message: `Step ${stepNumber}: ${primary.selector} matches ${primary.matches} elements, which violates Playwright strict mode`,
+        ...location
+      });
+    }
+
+    for (const fallback of report.fallbacks) {
+      if (fallback.error || fallback.matches === 0) {
+        warnings.push({
+          code: 'fallback-no-match',
+          message: `Step ${stepNumber}: fallback ${fallback.selector} matches no elements`,
+          ...location
+        });
+      } else if (fallback.matches > 1) {
+        warnings.push({
+          code: 'fallback-multiple-matches',
+          message: `Step ${stepNumber}: fallback ${fallback.selector} matches ${fallback.matches} elements`,
+          ...location
+        });
+      }
+    }
+  }
+}
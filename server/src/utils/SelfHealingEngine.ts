@@ -1,3 +1,4 @@
+import { FrameLocator, Page } from 'playwright';
 import { HealingStrategy } from '../types';
 import { logger } from './logger';
 
@@ -175,6 +176,10 @@ export class SelfHealingEngine {
     }
   }
 
+  async countMatches(selector: string, page: Page | FrameLocator): Promise<number> {
+    return page.locator(selector).count();
+  }
+
   async findBestFallback(
     fallbackSelectors: string[], 
     page: any, 
@@ -0,0 +1,113 @@
+import { SpecReportParser } from './SpecReportParser';
+
+describe('SpecReportParser', () => {
+  const parser = new SpecReportParser();
+
+  describe('parseJson', () => {
+    it('reads every test with its describe titles, project and final result', () => {
+      const results = parser.parseJson({
+        suites: [{
+          title: 'checkout.spec.ts',
+          file: 'checkout.spec.ts',
+          specs: [{
+            title: 'opens the cart',
+            tests: [{ projectName: 'chromium', results: [{ status: 'passed', duration: 812, retry: 0, errors: [] }] }]
+          }],
+          suites: [{
+            title: 'Checkout',
+            file: 'checkout.spec.ts',
+            specs: [{
+              title: 'pays by card',
+              tests: [
+                {
+                  projectName: 'chromium',
+                  results: [
+                    { status: 'failed', duration: 3000, retry: 0, errors: [{ message: 'Timeout 3000ms exceeded' }] },
+                    { status: 'passed', duration: 1200, retry: 1, errors: [] }
+                  ]
+                },
+                {
+                  projectName: 'firefox',
+                  results: [{ status: 'timedOut', duration: 30000, retry: 0, errors: [{ message: 'Test timeout' }, {}] }]
+                }
+              ]
+            }]
+          }]
+        }]
+      });
+
+      expect(results).toEqual([
+        { title: 'opens the cart', project: 'chromium', status: 'passed', duration: 812, retry: 0, errors: [] },
+        { title: 'Checkout › pays by card', project: 'chromium', status: 'passed', duration: 1200, retry: 1, errors: [] },
+        {
+          title: 'Checkout › pays by card',
+          project: 'firefox',
+          status: 'timedOut',
+          duration: 30000,
+          retry: 0,
+          errors: ['Test timeout', 'Unknown error']
+        }
+      ]);
+    });
+
+    it('skips tests without results and fills in missing fields', () => {
+      const results = parser.parseJson({
+        suites: [{
+          title: 'login.spec.ts',
+          file: 'tests/login.spec.ts',
+          specs: [{ title: 'signs in', tests: [{ results: [] }, { results: [{ status: 'skipped' }] }] }]
+        }]
+      });
+
+      expect(results).toEqual([{ title: 'signs in', project: '', status: 'skipped', duration: 0, retry: 0, errors: [] }]);
+    });
+
+    it('returns nothing for a report without suites', () => {
+      expect(parser.parseJson({})).toEqual([]);
+    });
+  });
+
+  describe('parseJUnit', () => {
+    it('reads passed, failed, errored and skipped test cases with the run\'s browser', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="checkout.spec.ts" tests="4">
+    <testcase name="Checkout › opens the cart" classname="checkout.spec.ts" time="0.812">
+    </testcase>
+    <testcase name="Checkout › pays &quot;by card&quot;" classname="checkout.spec.ts" time="3.5">
+      <failure message="expect(locator).toBeVisible() &amp; 1 more" type="FAILURE">details</failure>
+    </testcase>
+    <testcase name="Checkout › applies a voucher" classname="checkout.spec.ts" time="1">
+      <error message="page.goto: net::ERR_CONNECTION_REFUSED"/>
+    </testcase>
+    <testcase name="Checkout › &lt;pending&gt;" classname="checkout.spec.ts" time="0">
+      <skipped/>
+    </testcase>
+    <testcase name="Checkout › empty" classname="checkout.spec.ts" time="0.1"/>
+  </testsuite>
+</testsuites>`;
+
+      expect(parser.parseJUnit(xml, 'webkit')).toEqual([
+        { title: 'Checkout › opens the cart', project: 'webkit', status: 'passed', duration: 812, retry: 0, errors: [] },
+        {
+          title: 'Checkout › pays "by card"',
+          project: 'webkit',
+          status: 'failed',
+          duration: 3500,
+          retry: 0,
+          errors: ['expect(locator).toBeVisible() & 1 more']
+        },
+        {
+          title: 'Checkout › applies a voucher',
+          project: 'webkit',
+          status: 'failed',
+          duration: 1000,
+          retry: 0,
+          errors: ['page.goto: net::ERR_CONNECTION_REFUSED']
+        },
+        { title: 'Checkout › <pending>', project: 'webkit', status: 'skipped', duration: 0, retry: 0, errors: [] },
+        { title: 'Checkout › empty', project: 'webkit', status: 'passed', duration: 100, retry: 0, errors: [] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { BrowserType, SpecTestResult } from '../types';
+
+// Subset of the @playwright/test JSON reporter output that we read
+interface JsonReportSuite {
+  title: string;
+  file?: string;
+  specs?: {
+    title: string;
+    tests?: {
+      projectName?: string;
+      results?: {
+        status: SpecTestResult['status'];
+        duration?: number;
+        retry?: number;
+        errors?: { message?: string }[];
+      }[];
+    }[];
+  }[];
+  suites?: JsonReportSuite[];
+}
+
+// Reads the reports @playwright/test writes for a spec run, see PlaywrightSpecRunner
+export class SpecReportParser {
+  parseJson(report: { suites?: JsonReportSuite[] }): SpecTestResult[] {
+    const results: SpecTestResult[] = [];
+
+    const visitSuite = (suite: JsonReportSuite, titlePath: string[]) => {
+      // The top-level suite title is the spec file name
+      const suiteTitles = suite.title && !suite.file?.endsWith(suite.title) ? [...titlePath, suite.title] : titlePath;
+
+      for (const spec of suite.specs || []) {
+        for (const test of spec.tests || []) {
+          const testResults = test.results || [];
+          const finalResult = testResults[testResults.length - 1];
+          if (!finalResult) continue;
+
+          results.push({
+            title: [...suiteTitles, spec.title].join(' › '),
+            project: test.projectName || '',
+            status: finalResult.status,
+            duration: finalResult.duration || 0,
+            retry: finalResult.retry || 0,
+            errors: (finalResult.errors || []).map(error => error.message || 'Unknown error')
+          });
+        }
+      }
+
+      for (const child of suite.suites || []) {
+        visitSuite(child, suiteTitles);
+      }
+    };
+
+    for (const suite of report.suites || []) {
+      visitSuite(suite, []);
+    }
+
+    return results;
+  }
+
+  // Fallback when the JSON report is missing; JUnit has no projects, so every test gets the run's browser
+  parseJUnit(xml: string, browser: BrowserType): SpecTestResult[] {
+    const results: SpecTestResult[] = [];
+    const testCasePattern = /<testcase\s+([^>]*?)(\/>|>([\s\S]*?)<\/testcase>)/g;
+
+    for (const match of xml.matchAll(testCasePattern)) {
+      const attributes = match[1] || '';
+      const body = match[3] || '';
+      const name = /name="([^"]*)"/.exec(attributes)?.[1] || '';
+      const time = parseFloat(/time="([^"]*)"/.exec(attributes)?.[1] || '0');
+      const failure = /<(failure|error)[^>]*message="([^"]*)"/.exec(body);
+
+      results.push({
+        title: this.decodeXmlEntities(name),
+        project: browser,
+        status: failure ? 'failed' : /<skipped/.test(body) ? 'skipped' : 'passed',
+        duration: Math.round(time * 1000),
+        retry: 0,
+        errors: failure ? [this.decodeXmlEntities(failure[2] || '')] : []
+      });
+    }
+
+    return results;
+  }
+
+  private decodeXmlEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
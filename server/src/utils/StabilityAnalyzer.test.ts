@@ -0,0 +1,148 @@
+import { StabilityAnalyzer } from './StabilityAnalyzer';
+import { BrowserType, ExecutionStatus, StepResult, TestExecution } from '../types';
+
+type Outcome = Pick<StepResult, 'status'> & Partial<StepResult>;
+
+let executionCount = 0;
+
+function run(browser: BrowserType, outcomes: Outcome[], status?: ExecutionStatus): TestExecution {
+  const stepResults: StepResult[] = outcomes.map((outcome, index) => ({
+    stepId: `step-${index + 1}`,
+    stepIndex: index,
+    type: 'click',
+    description: `Step ${index + 1}`,
+    selector: `#step-${index + 1}`,
+    attempts: 1,
+    duration: 10,
+    ...outcome
+  }));
+  const failed = stepResults.some(result => result.status === 'failed');
+
+  return {
+    id: `execution-${++executionCount}`,
+    sessionId: 'session-1',
+    testName: 'Checkout',
+    browser,
+    mode: 'replay',
+    status: status || (failed ? 'failed' : 'passed'),
+    currentStepIndex: stepResults.length - 1,
+    stepResults,
+    summary: { total: stepResults.length, passed: 0, failed: 0, healed: 0, skipped: 0 },
+    createdAt: new Date(2026, 4, 10, 12, executionCount).toISOString()
+  };
+}
+
+const passed: Outcome = { status: 'passed' };
+const failed: Outcome = { status: 'failed', error: 'Timeout 30000ms exceeded' };
+const skipped: Outcome = { status: 'skipped' };
+
+describe('StabilityAnalyzer', () => {
+  const analyzer = new StabilityAnalyzer();
+
+  it('marks steps that pass on every run as stable', () => {
+    const report = analyzer.analyze('check-1', [
+      run('chromium', [passed, passed]),
+      run('chromium', [passed, passed]),
+      run('firefox', [passed, passed])
+    ], 'passed');
+
+    expect(report.ready).toBe(true);
+    expect(report.passRate).toBe(1);
+    expect(report.browsers).toEqual(['chromium', 'firefox']);
+    expect(report.steps.map(step => [step.verdict, step.flakinessScore])).toEqual([['stable', 0], ['stable', 0]]);
+    expect(report.inconsistentSteps).toEqual([]);
+  });
+
+  it('marks a step that fails on some runs as flaky', () => {
+    const report = analyzer.analyze('check-1', [
+      run('chromium', [passed, passed]),
+      run('chromium', [passed, failed]),
+      run('chromium', [passed, passed]),
+      run('chromium', [passed, passed])
+    ], 'failed');
+
+    const step = report.steps[1]!;
+    expect(step.verdict).toBe('flaky');
+    expect(step.flakinessScore).toBe(0.25);
+    expect(step.passedInconsistently).toBe(true);
+    expect(step.errors).toEqual(['Timeout 30000ms exceeded']);
+    expect(report.inconsistentSteps).toEqual(['step-2']);
+    expect(report.passRate).toBe(0.75);
+    expect(report.ready).toBe(false);
+  });
+
+  it('marks a step that fails on every run of a browser as failing, not flaky', () => {
+    const report = analyzer.analyze('check-1', [
+      run('chromium', [passed]),
+      run('chromium', [passed]),
+      run('webkit', [failed]),
+      run('webkit', [failed])
+    ], 'failed');
+
+    const step = report.steps[0]!;
+    expect(step.verdict).toBe('failing');
+    expect(step.failingBrowsers).toEqual(['webkit']);
+    expect(step.passedInconsistently).toBe(false);
+    expect(step.flakinessScore).toBe(0);
+  });
+
+  it('counts passing after a retry as unreliable', () => {
+    const report = analyzer.analyze('check-1', [
+      run('chromium', [{ status: 'passed', attempts: 2 }]),
+      run('chromium', [passed]),
+      run('chromium', [passed])
+    ], 'passed');
+
+    const step = report.steps[0]!;
+    expect(step.retried).toBe(1);
+    expect(step.flakinessScore).toBe(0.33);
+    expect(step.verdict).toBe('flaky');
+    expect(report.ready).toBe(false);
+  });
+
+  it('flags healing on some runs only, but not healing on every run', () => {
+    const healed: Outcome = { status: 'healed', healedSelector: 'text=Buy' };
+
+    const mixed = analyzer.analyze('check-1', [
+      run('chromium', [healed]),
+      run('chromium', [passed])
+    ], 'passed');
+    expect(mixed.steps[0]!.healedInconsistently).toBe(true);
+    expect(mixed.steps[0]!.flakinessScore).toBe(0.5);
+    expect(mixed.steps[0]!.healedSelectors).toEqual(['text=Buy']);
+    expect(mixed.inconsistentlyHealedSteps).toEqual(['step-1']);
+
+    const always = analyzer.analyze('check-1', [
+      run('chromium', [healed]),
+      run('chromium', [healed])
+    ], 'passed');
+    expect(always.steps[0]!.healedInconsistently).toBe(false);
+    expect(always.steps[0]!.verdict).toBe('stable');
+  });
+
+  it('leaves skipped steps and unfinished runs out of the score', () => {
+    const report = analyzer.analyze('check-1', [
+      run('chromium', [failed, skipped]),
+      run('chromium', [passed, passed]),
+      run('chromium', [], 'running')
+    ], 'running');
+
+    expect(report.totalRuns).toBe(3);
+    expect(report.completedRuns).toBe(2);
+    expect(report.passRate).toBe(0.5);
+    expect(report.ready).toBe(false);
+
+    const step = report.steps[1]!;
+    expect(step.runs).toBe(1);
+    expect(step.skipped).toBe(1);
+    expect(step.verdict).toBe('stable');
+  });
+
+  it('returns an empty report without runs', () => {
+    const report = analyzer.analyze('check-1', [], 'queued');
+
+    expect(report.steps).toEqual([]);
+    expect(report.passRate).toBe(0);
+    expect(report.sessionId).toBe('');
+  });
+});
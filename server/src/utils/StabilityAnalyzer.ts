@@ -0,0 +1,117 @@
+import { BrowserType, ExecutionStatus, StabilityReport, StepResult, StepStability, TestExecution } from '../types';
+
+const FINISHED_STATUSES: ExecutionStatus[] = ['passed', 'failed', 'error', 'cancelled', 'timedOut'];
+
+interface BrowserOutcomes {
+  browser: BrowserType;
+  results: StepResult[];
+}
+
+export class StabilityAnalyzer {
+  analyze(checkId: string, executions: TestExecution[], status: ExecutionStatus): StabilityReport {
+    const finished = executions.filter(execution => FINISHED_STATUSES.includes(execution.status));
+    const passedRuns = finished.filter(execution => execution.status === 'passed').length;
+    const browsers = Array.from(new Set(executions.map(execution => execution.browser)));
+
+    const steps = (executions[0]?.stepResults || []).map(reference =>
+      this.analyzeStep(reference, finished)
+    );
+
+    return {
+      checkId,
+      sessionId: executions[0]?.sessionId || '',
+      status,
+      browsers,
+      totalRuns: executions.length,
+      completedRuns: finished.length,
+      passRate: finished.length > 0 ? this.round(passedRuns / finished.length) : 0,
+      ready: finished.length === executions.length &&
+        passedRuns === executions.length &&
+        steps.every(step => step.verdict === 'stable'),
+      runs: executions.map(execution => ({
+        executionId: execution.id,
+        browser: execution.browser,
+        status: execution.status,
+        ...(execution.duration !== undefined && { duration: execution.duration })
+      })),
+      steps,
+      inconsistentSteps: steps.filter(step => step.passedInconsistently).map(step => step.stepId),
+      inconsistentlyHealedSteps: steps.filter(step => step.healedInconsistently).map(step => step.stepId)
+    };
+  }
+
+  private analyzeStep(reference: StepResult, executions: TestExecution[]): StepStability {
+    const byBrowser = new Map<BrowserType, BrowserOutcomes>();
+    let skipped = 0;
+
+    for (const execution of executions) {
+      const result = execution.stepResults.find(entry => entry.stepId === reference.stepId);
+      if (!result || result.status === 'skipped' || result.status === 'pending' || result.status === 'running') {
+        skipped++;
+        continue;
+      }
+
+      const outcomes = byBrowser.get(execution.browser) || { browser: execution.browser, results: [] };
+      outcomes.results.push(result);
+      byBrowser.set(execution.browser, outcomes);
+    }
+
+    const results = Array.from(byBrowser.values()).flatMap(outcomes => outcomes.results);
+    const failingBrowsers: BrowserType[] = [];
+    let unreliableRuns = 0;
+    let passedInconsistently = false;
+    let healedInconsistently = false;
+
+    // Consistency is judged per browser, a step that always fails in one browser is failing rather than flaky
+    for (const { browser, results: browserResults } of byBrowser.values()) {
+      const failed = browserResults.filter(result => result.status === 'failed').length;
+      const healed = browserResults.filter(result => result.status === 'healed').length;
+      const passed = browserResults.length - failed - healed;
+
+      if (failed === browserResults.length) {
+        failingBrowsers.push(browser);
+        continue;
+      }
+
+      const mixedHealing = healed > 0 && passed > 0;
+      passedInconsistently ||= failed > 0;
+      healedInconsistently ||= mixedHealing;
+
+      unreliableRuns += browserResults.filter(result =>
+        result.status === 'failed' ||
+        // Passing only after a retry means the first attempt failed
+        result.attempts > 1 ||
+        (mixedHealing && result.status === 'healed')
+      ).length;
+    }
+
+    const flakinessScore = results.length > 0 ? this.round(unreliableRuns / results.length) : 0;
+
+    return {
+      stepId: reference.stepId,
+      stepIndex: reference.stepIndex,
+      description: reference.description,
+      runs: results.length,
+      passed: results.filter(result => result.status === 'passed').length,
+      healed: results.filter(result => result.status === 'healed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      skipped,
+      retried: results.filter(result => result.status !== 'failed' && result.attempts > 1).length,
+      flakinessScore,
+      verdict: failingBrowsers.length > 0 ? 'failing' : flakinessScore > 0 ? 'flaky' : 'stable',
+      passedInconsistently,
+      healedInconsistently,
+      failingBrowsers,
+      healedSelectors: this.unique(results.map(result => result.healedSelector)),
+      errors: this.unique(results.map(result => result.error))
+    };
+  }
+
+  private unique(values: (string | undefined)[]): string[] {
+    return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
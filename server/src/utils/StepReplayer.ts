@@ -0,0 +1,309 @@
+import { FrameLocator, Locator, Page } from 'playwright';
+import { RecordedFile, SessionSettings, TestStep } from '../types';
+import { SelfHealingEngine } from './SelfHealingEngine';
+import { logger } from './logger';
+import { secretEnvName, secretValue } from './secrets';
+
+export interface StepReplayOutcome {
+  healed: boolean;
+  healedSelector?: string;
+  confidence: number;
+}
+
+interface ResolvedLocator {
+  locator: Locator;
+  healed: boolean;
+  selector: string;
+  confidence: number;
+}
+
+export class StepReplayer {
+  private healingEngine = new SelfHealingEngine();
+
+  /**
+   * Runs a step on the page it was recorded on. `popups` holds the pages opened by earlier
+   * steps of the same run, keyed by alias, and receives the popup this step opens.
+   */
+  async replay(
+    page: Page,
+    step: TestStep,
+    settings: SessionSettings,
+    popups: Map<string, Page> = new Map()
+  ): Promise<StepReplayOutcome> {
+    const stepPage = this.pageOf(page, step, popups);
+    if (!step.popupAlias) {
+      return this.perform(stepPage, step, settings);
+    }
+
+    // Wait from before the action, the popup can open before the action resolves
+    const popupEvent = stepPage.context().waitForEvent('page', { timeout: settings.waitTimeout });
+    let outcome: StepReplayOutcome;
+    try {
+      outcome = await this.perform(stepPage, step, settings);
+    } catch (error) {
+      popupEvent.catch(() => undefined);
+      throw error;
+    }
+
+    const popup = await popupEvent;
+    await popup.waitForLoadState('domcontentloaded', { timeout: settings.waitTimeout });
+    popups.set(step.popupAlias, popup);
+    return outcome;
+  }
+
+  pageOf(page: Page, step: TestStep, popups: Map<string, Page>): Page {
+    if (!step.pageAlias) return page;
+
+    const popup = popups.get(step.pageAlias);
+    if (!popup) {
+      throw new Error(`Page ${step.pageAlias} was not opened by an earlier step`);
+    }
+    return popup;
+  }
+
+  private async perform(page: Page, step: TestStep, settings: SessionSettings): Promise<StepReplayOutcome> {
+    const params = step.actionParams || {};
+
+    switch (step.type) {
+      case 'navigate':
+        if (params['history']) {
+          await this.moveInHistory(page, params['history'], settings.waitTimeout);
+        } else {
+          await page.goto(params['url'] || step.selector, { timeout: settings.waitTimeout });
+        }
+        return { healed: false, confidence: 1.0 };
+
+      case 'wait':
+        await this.wait(page, params['condition'] || 'networkidle', params['timeout'] || 5000);
+        return { healed: false, confidence: 1.0 };
+
+      case 'screenshot':
+        await page.screenshot({ fullPage: true });
+        return { healed: false, confidence: 1.0 };
+
+      case 'click': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.click({ timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'fill': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.fill(this.fillValue(params), { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'select': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        const value = Array.isArray(params['value']) ? params['value'].map(String) : String(params['value'] ?? '');
+        await resolved.locator.selectOption(value, { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'check':
+      case 'uncheck': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.setChecked(step.type === 'check', { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'press': {
+        // Keys pressed with nothing focused go to the page
+        if (!step.selector) {
+          await page.keyboard.press(String(params['key']));
+          return { healed: false, confidence: 1.0 };
+        }
+
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.press(String(params['key']), { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'hover': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.hover({ timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'upload': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.setInputFiles(this.placeholderFiles(params['files'] || []), { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'drag': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        const target = await this.resolveLocator(page, {
+          ...step,
+          selector: String(params['targetSelector'] ?? ''),
+          fallbackSelectors: params['targetFallbackSelectors'] || []
+        }, settings);
+        await resolved.locator.dragTo(target.locator, { timeout: settings.waitTimeout });
+        return this.toOutcome(resolved.healed ? resolved : target);
+      }
+
+      case 'scroll': {
+        const resolved = await this.resolveLocator(page, step, settings);
+        await resolved.locator.scrollIntoViewIfNeeded({ timeout: settings.waitTimeout });
+        return this.toOutcome(resolved);
+      }
+
+      case 'assertion':
+        return this.assert(page, step, settings);
+
+      default:
+        throw new Error(`Unsupported step type: ${step.type}`);
+    }
+  }
+
+  // Where the step's selectors apply: the page, or the iframe its frame chain leads to
+  scopeOf(page: Page, step: TestStep): Page | FrameLocator {
+    return (step.frameSelectors || []).reduce<Page | FrameLocator>(
+      (scope, frameSelector) => scope.frameLocator(frameSelector),
+      page
+    );
+  }
+
+  private async resolveLocator(page: Page, step: TestStep, settings: SessionSettings): Promise<ResolvedLocator> {
+    const scope = this.scopeOf(page, step);
+    const primary = scope.locator(step.selector);
+
+    try {
+      await primary.waitFor({ timeout: settings.fallbackTimeout });
+      return { locator: primary, healed: false, selector: step.selector, confidence: 1.0 };
+    } catch {
+      logger.warn(`Replay: primary selector failed, attempting healing: ${step.selector}`);
+    }
+
+    const healing = await this.healingEngine.healStep(step.selector, step.fallbackSelectors || [], scope);
+    if (healing.healed && healing.newSelector && healing.confidence >= settings.confidenceThreshold) {
+      return {
+        locator: scope.locator(healing.newSelector),
+        healed: true,
+        selector: healing.newSelector,
+        confidence: healing.confidence
+      };
+    }
+
+    if (healing.confidence === 1.0) {
+      // The original selector appeared while healing was being evaluated
+      return { locator: primary, healed: false, selector: step.selector, confidence: 1.0 };
+    }
+
+    throw new Error(`Element not found: ${step.selector}`);
+  }
+
+  private async moveInHistory(page: Page, move: 'back' | 'forward' | 'reload', timeout: number): Promise<void> {
+    switch (move) {
+      case 'back':
+        await page.goBack({ timeout });
+        break;
+      case 'forward':
+        await page.goForward({ timeout });
+        break;
+      default:
+        await page.reload({ timeout });
+    }
+  }
+
+  // Sensitive fills only hold the name of the secret, its value comes from the server environment
+  private fillValue(params: NonNullable<TestStep['actionParams']>): string {
+    if (!params['secret']) return String(params['value'] ?? '');
+
+    const value = secretValue(params['secret']);
+    if (value === undefined) {
+      throw new Error(`Secret ${params['secret']} is not set, expected in ${secretEnvName(params['secret'])}`);
+    }
+    return value;
+  }
+
+  // Only the names of recorded uploads are known, so replays attach empty files with the same names
+  private placeholderFiles(files: RecordedFile[]): { name: string; mimeType: string; buffer: Buffer }[] {
+    return files.map(file => ({ name: file.name, mimeType: file.mimeType, buffer: Buffer.alloc(0) }));
+  }
+
+  private async assert(page: Page, step: TestStep, settings: SessionSettings): Promise<StepReplayOutcome> {
+    const params = step.actionParams || {};
+
+    if (params['assertion'] === 'url') {
+      await this.assertUrl(page, String(params['expectedUrl'] ?? ''), settings);
+      return { healed: false, confidence: 1.0 };
+    }
+
+    const resolved = await this.resolveLocator(page, step, settings);
+    switch (params['assertion']) {
+      case 'visible':
+        await resolved.locator.waitFor({ state: 'visible', timeout: settings.waitTimeout }).catch(() => {
+          throw new Error(`Expected ${resolved.selector} to be visible`);
+        });
+        break;
+      case 'value': {
+        const expectedValue = String(params['expectedValue'] ?? '');
+        const actualValue = await resolved.locator.inputValue({ timeout: settings.waitTimeout });
+        if (!this.matchesExpected(actualValue, expectedValue, settings)) {
+          throw new Error(`Expected value "${expectedValue}" but found "${actualValue}"`);
+        }
+        break;
+      }
+      case 'checked': {
+        const checked = await resolved.locator.isChecked({ timeout: settings.waitTimeout });
+        if (checked !== Boolean(params['checked'])) {
+          throw new Error(`Expected ${resolved.selector} to be ${params['checked'] ? 'checked' : 'unchecked'}`);
+        }
+        break;
+      }
+      default:
+        await this.assertText(resolved.locator, String(params['expectedText'] ?? ''), settings);
+    }
+
+    return this.toOutcome(resolved);
+  }
+
+  private async assertText(locator: Locator, expectedText: string, settings: SessionSettings): Promise<void> {
+    const actualText = ((await locator.textContent({ timeout: settings.waitTimeout })) || '').trim();
+
+    if (!this.matchesExpected(actualText, expectedText, settings)) {
+      throw new Error(`Expected text "${expectedText}" but found "${actualText}"`);
+    }
+  }
+
+  // The page may still be redirecting, so the URL gets until the wait timeout to match
+  private async assertUrl(page: Page, expectedUrl: string, settings: SessionSettings): Promise<void> {
+    try {
+      await page.waitForURL(url => this.matchesExpected(url.toString(), expectedUrl, settings), {
+        timeout: settings.waitTimeout,
+        waitUntil: 'commit'
+      });
+    } catch {
+      throw new Error(`Expected URL "${expectedUrl}" but found "${page.url()}"`);
+    }
+  }
+
+  private matchesExpected(actual: string, expected: string, settings: SessionSettings): boolean {
+    return settings.assertionStrictness === 'strict'
+      ? actual === expected.trim()
+      : actual.includes(expected);
+  }
+
+  private async wait(page: Page, condition: string, timeout: number): Promise<void> {
+    switch (condition) {
+      case 'networkidle':
+      case 'domcontentloaded':
+      case 'load':
+        try {
+          await page.waitForLoadState(condition, { timeout });
+        } catch {
+          logger.warn(`Replay: wait condition '${condition}' timed out, continuing`);
+        }
+        break;
+      default:
+        await page.waitForTimeout(timeout);
+    }
+  }
+
+  private toOutcome(resolved: ResolvedLocator): StepReplayOutcome {
+    return resolved.healed
+      ? { healed: true, healedSelector: resolved.selector, confidence: resolved.confidence }
+      : { healed: false, confidence: resolved.confidence };
+  }
+}
@@ -0,0 +1,152 @@
+import { StepValidator } from './StepValidator';
+import { TestSession, TestStep } from '../types';
+
+type StepInput = Pick<TestStep, 'type'> & Partial<TestStep>;
+
+function session(steps: StepInput[]): TestSession {
+  return {
+    id: 'session-1',
+    testName: 'Checkout',
+    targetUrl: 'https://shop.example.com',
+    steps: steps.map((step, index) => ({
+      id: `step-${index + 1}`,
+      selector: '',
+      description: `Step ${index + 1}`,
+      timestamp: '2026-05-10T12:00:00.000Z',
+      ...step
+    })),
+    status: 'stopped',
+    createdAt: '2026-05-10T12:00:00.000Z',
+    updatedAt: '2026-05-10T12:00:00.000Z',
+    settings: {
+      healingStrategies: [],
+      confidenceThreshold: 0.8,
+      maxRetryAttempts: 3,
+      fallbackTimeout: 5000,
+      screenshotMode: 'none',
+      waitTimeout: 30000,
+      assertionStrictness: 'strict'
+    },
+    metadata: { viewport: { width: 1280, height: 720 }, userAgent: 'jest', browser: 'chromium' }
+  };
+}
+
+const navigate = (url: string): StepInput => ({ type: 'navigate', actionParams: { url } });
+const assertText = (selector: string, expectedText = 'Thank you'): StepInput => ({
+  type: 'assertion',
+  selector,
+  actionParams: { assertion: 'text', expectedText }
+});
+
+describe('StepValidator', () => {
+  const validator = new StepValidator();
+  const codesOf = (issues: { code: string; stepIndex?: number }[]) => issues.map(issue => [issue.code, issue.stepIndex]);
+
+  it('rejects a session without steps', () => {
+    const result = validator.validate(session([]));
+
+    expect(result.isValid).toBe(false);
+    expect(codesOf(result.errors)).toEqual([['no-steps', undefined]]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('accepts a session that ends with an assertion', () => {
+    const result = validator.validate(session([
+      navigate('https://shop.example.com'),
+      { type: 'click', selector: '[data-testid="buy"]' },
+      { type: 'fill', selector: '#email', actionParams: { value: 'jo@example.com' } },
+      assertText('#confirmation'),
+      { type: 'screenshot' }
+    ]));
+
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('warns when there are no assertions or steps come after the last one', () => {
+    expect(codesOf(validator.validate(session([{ type: 'click', selector: '#buy' }])).warnings))
+      .toEqual([['no-assertions', undefined]]);
+
+    expect(codesOf(validator.validate(session([
+      assertText('#confirmation'),
+      { type: 'click', selector: '#buy' }
+    ])).warnings)).toEqual([['step-after-last-assertion', 1]]);
+  });
+
+  it('reports fills without a value and assertions without an expectation', () => {
+    const result = validator.validate(session([
+      { type: 'fill', selector: '#email', actionParams: { value: '' } },
+      { type: 'fill', selector: '#name' },
+      assertText('#confirmation', '  '),
+      { type: 'assertion', selector: '', actionParams: { assertion: 'url' } }
+    ]));
+
+    expect(result.isValid).toBe(false);
+    expect(codesOf(result.errors)).toEqual([
+      ['empty-fill-value', 0],
+      ['empty-fill-value', 1],
+      ['missing-expected-text', 2],
+      ['missing-expected-url', 3]
+    ]);
+  });
+
+  it('requires selectors on element steps but not on URL assertions', () => {
+    const result = validator.validate(session([
+      { type: 'click', selector: '  ' },
+      { type: 'assertion', selector: '', actionParams: { assertion: 'url', expectedUrl: '/done' } }
+    ]));
+
+    expect(codesOf(result.errors)).toEqual([['missing-selector', 0]]);
+  });
+
+  it('warns about bare tag and single class selectors', () => {
+    const result = validator.validate(session([
+      { type: 'click', selector: 'button' },
+      { type: 'click', selector: '.btn-primary' },
+      { type: 'click', selector: 'button.btn-primary' },
+      assertText('role=heading[name="Done"]')
+    ]));
+
+    expect(result.isValid).toBe(true);
+    expect(codesOf(result.warnings)).toEqual([['weak-selector', 0], ['weak-selector', 1]]);
+  });
+
+  it('warns about a navigation to the same URL right after another, but not about reloads', () => {
+    const result = validator.validate(session([
+      navigate('https://shop.example.com'),
+      navigate('https://shop.example.com'),
+      { type: 'navigate', actionParams: { url: 'https://shop.example.com', history: 'reload' } },
+      navigate('https://shop.example.com/cart'),
+      assertText('#confirmation')
+    ]));
+
+    expect(codesOf(result.warnings)).toEqual([['duplicate-navigation', 1]]);
+  });
+
+  describe('secret fills', () => {
+    const secretSession = session([
+      { type: 'fill', selector: '#password', actionParams: { secret: 'LOGIN_PASSWORD' } },
+      assertText('#confirmation')
+    ]);
+
+    afterEach(() => {
+      delete process.env['RECORDED_SECRET_LOGIN_PASSWORD'];
+      delete process.env['LOGIN_PASSWORD'];
+    });
+
+    it('warns when the secret\'s variable is not set, without treating the fill as empty', () => {
+      // Only the RECORDED_SECRET_ variable counts
+      process.env['LOGIN_PASSWORD'] = 'hunter2';
+      const result = validator.validate(secretSession);
+
+      expect(result.isValid).toBe(true);
+      expect(codesOf(result.warnings)).toEqual([['missing-secret', 0]]);
+      expect(result.warnings[0]?.message).toContain('RECORDED_SECRET_LOGIN_PASSWORD');
+    });
+
+    it('accepts the fill once the variable is set', () => {
+      process.env['RECORDED_SECRET_LOGIN_PASSWORD'] = 'hunter2';
+
+      expect(validator.validate(secretSession)).toEqual({ isValid: true, errors: [], warnings: [] });
+    });
+  });
+});
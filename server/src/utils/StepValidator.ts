@@ -0,0 +1,95 @@
+import { TestSession, TestStep, ValidationIssue, ValidationResult } from '../types';
+import { secretEnvName, secretValue } from './secrets';
+
+const ELEMENT_STEP_TYPES: TestStep['type'][] = [
+  'click', 'fill', 'select', 'check', 'uncheck', 'hover', 'upload', 'drag', 'scroll', 'assertion'
+];
+
+export class StepValidator {
+  validate(session: TestSession): ValidationResult {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const steps = session.steps;
+
+    if (steps.length === 0) {
+      errors.push({ code: 'no-steps', message: 'The session has no recorded steps' });
+      return { isValid: false, errors, warnings };
+    }
+
+    const lastAssertionIndex = steps.map(step => step.type).lastIndexOf('assertion');
+    if (lastAssertionIndex === -1) {
+      warnings.push({
+        code: 'no-assertions',
+        message: 'The session has no assertions, so it can only fail when an action fails'
+      });
+    }
+
+    steps.forEach((step, index) => {
+      const issue = (code: string, message: string): ValidationIssue => ({ code, message, stepId: step.id, stepIndex: index });
+      const params = step.actionParams || {};
+
+      if (step.type === 'fill' && params['secret']) {
+        // Replays in this server read the secret from its environment, exported suites from .env
+        if (secretValue(params['secret']) === undefined) {
+          warnings.push(issue(
+            'missing-secret',
+            `Step ${index + 1} fills ${step.selector} with secret ${params['secret']}, but ${secretEnvName(params['secret'])} is not set`
+          ));
+        }
+      } else if (step.type === 'fill' && !String(params['value'] ?? '').length) {
+        errors.push(issue('empty-fill-value', `Step ${index + 1} fills ${step.selector} with an empty value`));
+      }
+
+      const assertion = step.type === 'assertion' ? params['assertion'] || 'text' : null;
+
+      if (assertion === 'text' && !String(params['expectedText'] ?? '').trim()) {
+        errors.push(issue('missing-expected-text', `Step ${index + 1} asserts on ${step.selector} without expected text`));
+      }
+
+      if (assertion === 'url' && !String(params['expectedUrl'] ?? '').trim()) {
+        errors.push(issue('missing-expected-url', `Step ${index + 1} asserts on the URL without an expected URL`));
+      }
+
+      // URL assertions are made on the page, not on an element
+      if (ELEMENT_STEP_TYPES.includes(step.type) && assertion !== 'url') {
+        if (!step.selector.trim()) {
+          errors.push(issue('missing-selector', `Step ${index + 1} has no selector`));
+        } else if (this.isWeakSelector(step.selector)) {
+          warnings.push(issue(
+            'weak-selector',
+            `Step ${index + 1} uses "${step.selector}", which is likely to match several elements`
+          ));
+        }
+      }
+
+      if (lastAssertionIndex !== -1 && index > lastAssertionIndex && step.type !== 'screenshot') {
+        warnings.push(issue(
+          'step-after-last-assertion',
+          `Step ${index + 1} runs after the last assertion, so its outcome is never verified`
+        ));
+      }
+
+      const previous = steps[index - 1];
+      // A reload lands on the same URL on purpose
+      if (step.type === 'navigate' && previous?.type === 'navigate' && !params['history']
+        && this.navigationUrl(previous) === this.navigationUrl(step)) {
+        warnings.push(issue(
+          'duplicate-navigation',
+          `Step ${index + 1} navigates to ${this.navigationUrl(step)} again right after step ${index}`
+        ));
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private isWeakSelector(selector: string): boolean {
+    const trimmed = selector.trim();
+    // A bare tag name (e.g. "button") or a single class (e.g. ".btn")
+    return /^[a-z][a-z0-9-]*$/i.test(trimmed) || /^\.[\w-]+$/.test(trimmed);
+  }
+
+  private navigationUrl(step: TestStep): string {
+    return step.actionParams?.['url'] || step.selector;
+  }
+}
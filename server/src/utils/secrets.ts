@@ -0,0 +1,24 @@
+// Recorded secrets are read from their own environment variables only, so a field a page
+// happens to name like a server setting (JWT_SECRET, SUPABASE_ANON_KEY) can never be filled with it
+export const SECRET_ENV_PREFIX = 'RECORDED_SECRET_';
+
+// Variables the Playwright child process needs to start a browser, see PlaywrightSpecRunner
+const RUNNER_ENV_VARIABLES = [
+  'PATH', 'HOME', 'USERPROFILE', 'TMPDIR', 'TEMP', 'TMP', 'LANG', 'DISPLAY', 'XDG_RUNTIME_DIR',
+  'SYSTEMROOT', 'PLAYWRIGHT_BROWSERS_PATH', 'CI'
+];
+
+export const secretEnvName = (secret: string): string => `${SECRET_ENV_PREFIX}${secret}`;
+
+export const secretValue = (secret: string): string | undefined => process.env[secretEnvName(secret)];
+
+// What a spec run gets from the server environment: the basics to run and the recorded secrets
+export const runnerEnv = (): NodeJS.ProcessEnv => {
+  const env: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (RUNNER_ENV_VARIABLES.includes(name.toUpperCase()) || name.startsWith(SECRET_ENV_PREFIX)) {
+      env[name] = value;
+    }
+  }
+  return env;
+};
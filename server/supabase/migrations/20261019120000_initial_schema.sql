@@ -0,0 +1,29 @@
+-- Sessions and their recorded steps, as read and written by DatabaseService.
+-- Existing deployments already have these tables; IF NOT EXISTS leaves them untouched.
+
+create table if not exists sessions (
+  id text primary key,
+  test_name text not null,
+  target_url text not null,
+  status text not null default 'created',
+  settings jsonb not null,
+  metadata jsonb not null,
+  created_at timestamptz not null,
+  updated_at timestamptz not null
+);
+
+create table if not exists steps (
+  id text primary key,
+  session_id text not null references sessions (id) on delete cascade,
+  type text not null,
+  selector text not null,
+  value text,
+  description text not null,
+  step_order integer not null,
+  fallback_selectors jsonb,
+  metadata jsonb,
+  created_at timestamptz not null
+);
+
+create index if not exists idx_sessions_status on sessions (status);
+create index if not exists idx_steps_order on steps (session_id, step_order);
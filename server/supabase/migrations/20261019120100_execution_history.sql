@@ -0,0 +1,55 @@
+-- Finished test runs. Not tied to the session row, history outlives deleted sessions.
+create table if not exists executions (
+  id text primary key,
+  session_id text not null,
+  test_name text not null,
+  browser text not null,
+  status text not null,
+  summary jsonb not null,
+  error text,
+  created_at timestamptz not null,
+  started_at timestamptz,
+  finished_at timestamptz,
+  duration integer
+);
+
+create index if not exists idx_executions_session on executions (session_id, created_at desc);
+
+create table if not exists step_results (
+  id bigint generated always as identity primary key,
+  execution_id text not null references executions (id) on delete cascade,
+  step_id text not null,
+  step_index integer not null,
+  type text not null,
+  description text not null,
+  selector text not null,
+  status text not null,
+  healed_selector text,
+  attempts integer not null,
+  duration integer not null,
+  error text,
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists idx_step_results_execution on step_results (execution_id, step_index);
+
+-- Saves a run with its step results in one transaction, called by DatabaseService.createExecution
+create or replace function save_execution(p_execution jsonb, p_step_results jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  insert into executions
+  select * from jsonb_populate_record(null::executions, p_execution);
+
+  insert into step_results (
+    execution_id, step_id, step_index, type, description, selector, status,
+    healed_selector, attempts, duration, error, started_at, finished_at
+  )
+  select
+    execution_id, step_id, step_index, type, description, selector, status,
+    healed_selector, attempts, duration, error, started_at, finished_at
+  from jsonb_populate_recordset(null::step_results, p_step_results);
+end;
+$$;
@@ -0,0 +1,3 @@
+-- Runs are replayed step by step or run as the exported spec, which reports per test
+alter table executions add column if not exists mode text not null default 'replay';
+alter table executions add column if not exists spec_results jsonb;
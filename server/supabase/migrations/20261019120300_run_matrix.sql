@@ -0,0 +1,6 @@
+-- Device and viewport of a run, and the matrix id shared by the runs of one matrix
+alter table executions add column if not exists device text;
+alter table executions add column if not exists viewport jsonb;
+alter table executions add column if not exists matrix_id text;
+
+create index if not exists idx_executions_matrix on executions (matrix_id) where matrix_id is not null;
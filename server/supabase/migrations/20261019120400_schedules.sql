@@ -0,0 +1,14 @@
+-- Recurring runs of one or more sessions, see Scheduler
+create table if not exists schedules (
+  id text primary key,
+  name text not null,
+  cron text not null,
+  session_ids jsonb not null,
+  browsers jsonb not null,
+  mode text not null,
+  enabled boolean not null default true,
+  last_run_at timestamptz,
+  last_execution_ids jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null,
+  updated_at timestamptz not null
+);
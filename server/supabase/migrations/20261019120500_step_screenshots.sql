@@ -0,0 +1,21 @@
+-- Path of the screenshot taken after each step, relative to the session's artifact folder
+alter table step_results add column if not exists screenshot text;
+
+create or replace function save_execution(p_execution jsonb, p_step_results jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  insert into executions
+  select * from jsonb_populate_record(null::executions, p_execution);
+
+  insert into step_results (
+    execution_id, step_id, step_index, type, description, selector, status,
+    healed_selector, attempts, duration, error, screenshot, started_at, finished_at
+  )
+  select
+    execution_id, step_id, step_index, type, description, selector, status,
+    healed_selector, attempts, duration, error, screenshot, started_at, finished_at
+  from jsonb_populate_recordset(null::step_results, p_step_results);
+end;
+$$;
@@ -0,0 +1,3 @@
+-- Every parameter of a step, e.g. the options of a select or the key of a press.
+-- value keeps the text of fills for rows read by older versions.
+alter table steps add column if not exists action_params jsonb;
@@ -0,0 +1,2 @@
+-- Selectors of the iframes leading to a step's element, outermost first
+alter table steps add column if not exists frame_selectors jsonb;
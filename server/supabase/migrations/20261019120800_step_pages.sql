@@ -0,0 +1,3 @@
+-- The page a step runs on, and the popup it opens, by alias
+alter table steps add column if not exists page_alias text;
+alter table steps add column if not exists popup_alias text;
@@ -0,0 +1,2 @@
+-- XHR and fetch requests a step caused, with how generated tests use each of them
+alter table steps add column if not exists network jsonb;
@@ -9,6 +9,7 @@ import { Dashboard } from './components/dashboard/Dashboard';
 import { RecordingControls } from './components/recording/RecordingControls';
 import { StepsList } from './components/recording/StepsList';
 import { QuickActions } from './components/recording/QuickActions';
+import { LiveBrowserView } from './components/recording/LiveBrowserView';
 import { CodeEditor } from './components/editor/CodeEditor';
 import { Button } from './components/common/Button';
 
@@ -121,7 +122,8 @@ function App() {
                         <RecordingControls />
                         <QuickActions />
                       </div>
-                      <div className="lg:col-span-2">
+                      <div className="lg:col-span-2 space-y-6">
+                        <LiveBrowserView />
                         <StepsList />
                       </div>
                     </div>
@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, Monitor, MonitorOff, RotateCw } from 'lucide-react';
+import { useRecording } from '../../context/RecordingContext';
+import { wsService } from '../../services/websocket';
+import { BrowserAction, ScreencastFrame, ScreencastInput } from '../../types';
+import { Card } from '../common/Card';
+
+const MOUSE_BUTTONS: Record<number, 'left' | 'middle' | 'right'> = { 0: 'left', 1: 'middle', 2: 'right' };
+
+export function LiveBrowserView() {
+  const { state } = useRecording();
+  const [frame, setFrame] = useState<ScreencastFrame | null>(null);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const pendingMove = useRef<number | null>(null);
+  const [address, setAddress] = useState('');
+
+  const sessionId = state.isRecording ? state.sessionId : null;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const handleFrame = (data: ScreencastFrame) => {
+      if (data.sessionId === sessionId) setFrame(data);
+    };
+    const handleStopped = (data: { sessionId: string }) => {
+      if (data.sessionId === sessionId) setFrame(null);
+    };
+
+    wsService.on('screencast:frame', handleFrame);
+    wsService.on('screencast:stopped', handleStopped);
+    wsService.emit('screencast:start', { sessionId });
+
+    return () => {
+      wsService.emit('screencast:stop', { sessionId });
+      wsService.off('screencast:frame', handleFrame);
+      wsService.off('screencast:stopped', handleStopped);
+      setFrame(null);
+    };
+  }, [sessionId]);
+
+  // The address bar follows the page until the user edits it and the page navigates again
+  const frameUrl = frame?.url;
+  useEffect(() => {
+    if (frameUrl) setAddress(frameUrl);
+  }, [frameUrl]);
+
+  const send = (input: ScreencastInput) => {
+    if (sessionId) wsService.emit('screencast:input', { sessionId, input });
+  };
+
+  // Navigation from the address bar is recorded like navigation in the page
+  const runAction = (action: BrowserAction) => {
+    if (!sessionId) return;
+    wsService.browserAction(sessionId, action, true).catch(error => {
+      console.error('Browser action failed:', error);
+    });
+  };
+
+  const handleAddressSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (address.trim()) runAction({ type: 'navigate', url: address.trim() });
+  };
+
+  // The image is scaled to fit the panel, input goes back in the page's own coordinates
+  const pointOf = (event: { clientX: number; clientY: number }) => {
+    const bounds = imageRef.current?.getBoundingClientRect();
+    if (!bounds || !frame) return null;
+    return {
+      x: Math.round(((event.clientX - bounds.left) / bounds.width) * frame.width),
+      y: Math.round(((event.clientY - bounds.top) / bounds.height) * frame.height)
+    };
+  };
+
+  // Moves are sent at most once per animation frame
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const point = pointOf(event);
+    if (!point || pendingMove.current !== null) return;
+    pendingMove.current = requestAnimationFrame(() => {
+      pendingMove.current = null;
+      send({ type: 'mousemove', ...point });
+    });
+  };
+
+  const handleMouseButton = (event: React.MouseEvent) => {
+    const point = pointOf(event);
+    if (!point) return;
+    event.preventDefault();
+    viewRef.current?.focus();
+    send({
+      type: event.type === 'mousedown' ? 'mousedown' : 'mouseup',
+      ...point,
+      button: MOUSE_BUTTONS[event.button] || 'left',
+      clickCount: event.detail || 1
+    });
+  };
+
+  const handleKey = (event: React.KeyboardEvent) => {
+    // Tab, arrows and shortcuts belong to the recorded page, not this one
+    event.preventDefault();
+    send({ type: event.type === 'keydown' ? 'keydown' : 'keyup', key: event.key });
+  };
+
+  // React wheel listeners are passive, scrolling this page instead has to be prevented natively
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      const point = pointOf(event);
+      if (!point) return;
+      event.preventDefault();
+      send({ type: 'wheel', ...point, deltaX: event.deltaX, deltaY: event.deltaY });
+    };
+    view.addEventListener('wheel', handleWheel, { passive: false });
+    return () => view.removeEventListener('wheel', handleWheel);
+  });
+
+  return (
+    <Card className="space-y-4" padding="sm">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <Monitor className="h-5 w-5 text-blue-400" />
+        Live Browser
+      </h3>
+
+      {frame && (
+        <form onSubmit={handleAddressSubmit} className="flex items-center gap-2">
+          <button type="button" onClick={() => runAction({ type: 'back' })} className="p-1.5 text-gray-400 hover:text-white" title="Back">
+            <ArrowLeft className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => runAction({ type: 'forward' })} className="p-1.5 text-gray-400 hover:text-white" title="Forward">
+            <ArrowRight className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => runAction({ type: 'reload' })} className="p-1.5 text-gray-400 hover:text-white" title="Reload">
+            <RotateCw className="h-4 w-4" />
+          </button>
+          <input
+            type="url"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            className="flex-1 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-sm text-white
+                     focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+          />
+        </form>
+      )}
+
+      {frame ? (
+        <div
+          ref={viewRef}
+          tabIndex={0}
+          className="rounded-lg overflow-hidden border border-gray-700 focus:outline-none focus:border-blue-500 cursor-default"
+          onMouseMove={handleMouseMove}
+          onMouseDown={handleMouseButton}
+          onMouseUp={handleMouseButton}
+          onContextMenu={(event) => event.preventDefault()}
+          onKeyDown={handleKey}
+          onKeyUp={handleKey}
+        >
+          <img
+            ref={imageRef}
+            src={`data:image/jpeg;base64,${frame.data}`}
+            alt="Recorded page"
+            className="w-full h-auto select-none"
+            draggable={false}
+          />
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-2 py-16 text-gray-500 border border-dashed border-gray-700 rounded-lg">
+          <MonitorOff className="h-8 w-8" />
+          <span className="text-sm">
+            {state.isRecording ? 'Waiting for the browser...' : 'Start a recording to see the browser here'}
+          </span>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -7,12 +7,19 @@ import {
   Clock, 
   CheckCircle, 
   Camera,
+  CheckSquare,
+  Square,
+  Keyboard,
+  Pointer,
+  Upload,
+  Move,
+  ArrowDownToLine,
   Trash2,
   Edit3,
   AlertTriangle
 } from 'lucide-react';
 import { useRecording } from '../../context/RecordingContext';
-import { TestStep } from '../../types';
+import { TestStep, StepRunStatus } from '../../types';
 import { Card } from '../common/Card';
 
 const stepIcons = {
@@ -20,6 +27,13 @@ const stepIcons = {
   click: MousePointer,
   fill: Type,
   select: MousePointer,
+  check: CheckSquare,
+  uncheck: Square,
+  press: Keyboard,
+  hover: Pointer,
+  upload: Upload,
+  drag: Move,
+  scroll: ArrowDownToLine,
   wait: Clock,
   assertion: CheckCircle,
   screenshot: Camera,
@@ -30,11 +44,27 @@ const stepColors = {
   click: 'text-green-400',
   fill: 'text-yellow-400',
   select: 'text-purple-400',
+  check: 'text-purple-400',
+  uncheck: 'text-purple-400',
+  press: 'text-yellow-400',
+  hover: 'text-green-400',
+  upload: 'text-cyan-400',
+  drag: 'text-green-400',
+  scroll: 'text-blue-400',
   wait: 'text-orange-400',
   assertion: 'text-emerald-400',
   screenshot: 'text-pink-400',
 };
 
+const runStatusClasses: Record<StepRunStatus, string> = {
+  pending: 'border-gray-700',
+  running: 'border-blue-500 ring-2 ring-blue-500/40',
+  passed: 'border-green-600',
+  failed: 'border-red-600',
+  healed: 'border-yellow-500',
+  skipped: 'border-gray-700 opacity-60',
+};
+
 export function StepsList() {
   const { state, removeStep, updateStep } = useRecording();
 
@@ -78,6 +108,8 @@ export function StepsList() {
                 index={index}
                 onRemove={() => removeStep(step.id)}
                 onUpdate={(updates) => updateStep(step.id, updates)}
+                runStatus={state.execution?.stepStatuses[step.id]}
+                runError={state.execution?.stepErrors[step.id]}
               />
             ))
           )}
@@ -92,11 +124,14 @@ interface StepItemProps {
   index: number;
   onRemove: () => void;
   onUpdate: (updates: Partial<TestStep>) => void;
+  runStatus?: StepRunStatus;
+  runError?: string;
 }
 
-function StepItem({ step, index, onRemove, onUpdate }: StepItemProps) {
+function StepItem({ step, index, onRemove, onUpdate, runStatus, runError }: StepItemProps) {
   const Icon = stepIcons[step.type];
   const colorClass = stepColors[step.type];
+  const borderClass = runStatus ? runStatusClasses[runStatus] : 'border-gray-700 hover:border-gray-600';
 
   return (
     <motion.div
@@ -104,8 +139,8 @@ function StepItem({ step, index, onRemove, onUpdate }: StepItemProps) {
       animate={{ opacity: 1, x: 0 }}
       exit={{ opacity: 0, x: 20 }}
       transition={{ delay: index * 0.1 }}
-      className="group bg-gray-800 rounded-lg p-4 border border-gray-700 hover:border-gray-600
-                 transition-all duration-200 hover:shadow-lg"
+      className={`group bg-gray-800 rounded-lg p-4 border ${borderClass}
+                 transition-all duration-200 hover:shadow-lg`}
     >
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-3 flex-1">
@@ -119,6 +154,9 @@ function StepItem({ step, index, onRemove, onUpdate }: StepItemProps) {
                 {step.type}
               </span>
               <span className="text-xs text-gray-600">#{index + 1}</span>
+              {runStatus && runStatus !== 'pending' && (
+                <span className="text-xs text-gray-400">{runStatus}</span>
+              )}
             </div>
             
             <p className="text-sm text-white font-medium mt-1 line-clamp-2">
@@ -134,6 +172,11 @@ function StepItem({ step, index, onRemove, onUpdate }: StepItemProps) {
                   <span className="font-medium">Value:</span> {step.value}
                 </div>
               )}
+              {runError && (
+                <div className="text-xs text-red-400">
+                  <span className="font-medium">Error:</span> {runError}
+                </div>
+              )}
               <div className="text-xs text-gray-500">
                 {formatTimestamp(step.timestamp)}
               </div>
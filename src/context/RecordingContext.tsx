@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
 import { apiService } from '../services/api';
 import { wsService } from '../services/websocket';
-import { RecordingState, TestStep, GeneratedTest, HealingStrategy } from '../types';
+import { RecordingState, TestStep, GeneratedTest, HealingStrategy, StepRunStatus } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 interface RecordingContextType {
@@ -25,7 +25,10 @@ type RecordingAction =
   | { type: 'UPDATE_STEP'; payload: { stepId: string; updates: Partial<TestStep> } }
   | { type: 'CLEAR_STEPS' }
   | { type: 'UPDATE_HEALING_CONFIG'; payload: Partial<RecordingState['healingConfig']> }
-  | { type: 'SET_SESSION_ID'; payload: string };
+  | { type: 'SET_SESSION_ID'; payload: string }
+  | { type: 'EXECUTION_STARTED'; payload: { executionId: string } }
+  | { type: 'EXECUTION_STEP'; payload: { executionId: string; stepId: string; status: StepRunStatus; error?: string } }
+  | { type: 'EXECUTION_FINISHED'; payload: { executionId: string; status: 'passed' | 'failed' | 'error' | 'cancelled' | 'timedOut' } };
 
 const initialState: RecordingState = {
   isRecording: false,
@@ -42,7 +45,8 @@ const initialState: RecordingState = {
     confidenceThreshold: 0.8,
     maxRetryAttempts: 3,
     fallbackTimeout: 5000
-  }
+  },
+  execution: null
 };
 
 function recordingReducer(state: RecordingState, action: RecordingAction): RecordingState {
@@ -116,6 +120,49 @@ function recordingReducer(state: RecordingState, action: RecordingAction): Recor
         sessionId: action.payload
       };
 
+    case 'EXECUTION_STARTED':
+      return {
+        ...state,
+        execution: {
+          executionId: action.payload.executionId,
+          status: 'running',
+          runningStepId: null,
+          stepStatuses: {},
+          stepErrors: {}
+        }
+      };
+
+    case 'EXECUTION_STEP':
+      if (state.execution?.executionId !== action.payload.executionId) {
+        return state;
+      }
+      return {
+        ...state,
+        execution: {
+          ...state.execution,
+          runningStepId: action.payload.status === 'running'
+            ? action.payload.stepId
+            : state.execution.runningStepId === action.payload.stepId ? null : state.execution.runningStepId,
+          stepStatuses: { ...state.execution.stepStatuses, [action.payload.stepId]: action.payload.status },
+          stepErrors: action.payload.error
+            ? { ...state.execution.stepErrors, [action.payload.stepId]: action.payload.error }
+            : state.execution.stepErrors
+        }
+      };
+
+    case 'EXECUTION_FINISHED':
+      if (state.execution?.executionId !== action.payload.executionId) {
+        return state;
+      }
+      return {
+        ...state,
+        execution: {
+          ...state.execution,
+          status: action.payload.status,
+          runningStepId: null
+        }
+      };
+
     default:
       return state;
   }
@@ -146,6 +193,29 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'STOP_RECORDING' });
     });
 
+    wsService.on('execution:started', (data) => {
+      dispatch({ type: 'EXECUTION_STARTED', payload: { executionId: data.executionId } });
+    });
+
+    const handleStepEvent = (data: { executionId: string; result: { stepId: string; status: StepRunStatus; error?: string } }) => {
+      dispatch({
+        type: 'EXECUTION_STEP',
+        payload: {
+          executionId: data.executionId,
+          stepId: data.result.stepId,
+          status: data.result.status,
+          error: data.result.error
+        }
+      });
+    };
+    ['step:running', 'step:passed', 'step:failed', 'step:healed'].forEach(event => {
+      wsService.on(event, handleStepEvent);
+    });
+
+    wsService.on('execution:finished', (data) => {
+      dispatch({ type: 'EXECUTION_FINISHED', payload: { executionId: data.executionId, status: data.status } });
+    });
+
     wsService.on('session:error', (data) => {
       console.error('Session error:', data);
     });
@@ -167,20 +237,28 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
       // Join WebSocket session
       wsService.joinSession(sessionId);
       
-      // Start recording
+      // Start recording, the browser is shown inline by LiveBrowserView
       await apiService.startRecording(sessionId);
       
-      // Open recording window
-      const recordingUrl = `http://localhost:3001/recording/${sessionId}`;
-      window.open(recordingUrl, '_blank', 'width=1200,height=800');
-      
     } catch (error) {
       console.error('Failed to start recording:', error);
     }
   };
 
-  const pauseRecording = () => {
-    dispatch({ type: 'PAUSE_RECORDING' });
+  const pauseRecording = async () => {
+    try {
+      if (state.sessionId) {
+        // The server drops events from the page while paused
+        if (state.isPaused) {
+          await apiService.resumeRecording(state.sessionId);
+        } else {
+          await apiService.pauseRecording(state.sessionId);
+        }
+      }
+      dispatch({ type: 'PAUSE_RECORDING' });
+    } catch (error) {
+      console.error('Failed to pause recording:', error);
+    }
   };
 
   const stopRecording = async () => {
@@ -36,6 +36,36 @@ class ApiService {
     return response.json();
   }
 
+  async pauseRecording(sessionId: string) {
+    const response = await fetch(`${this.baseUrl}/api/session/${sessionId}/pause`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async resumeRecording(sessionId: string) {
+    const response = await fetch(`${this.baseUrl}/api/session/${sessionId}/resume`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   async stopRecording(sessionId: string) {
     const response = await fetch(`${this.baseUrl}/api/session/${sessionId}/stop`, {
       method: 'POST',
@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { BrowserAction, BrowserActionResult } from '../types';
 
 class WebSocketService {
   private socket: Socket | null = null;
@@ -59,6 +60,19 @@ class WebSocketService {
     }
   }
 
+  // Resolves with the server's result, rejects when the action failed
+  async browserAction(sessionId: string, action: BrowserAction, record = false): Promise<BrowserActionResult> {
+    if (!this.socket) {
+      throw new Error('WebSocket is not connected');
+    }
+
+    const response = await this.socket.emitWithAck('browser:action', { sessionId, action, record });
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    return response.data;
+  }
+
   emit(event: string, data: any) {
     if (this.socket) {
       this.socket.emit(event, data);
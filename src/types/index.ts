@@ -1,6 +1,20 @@
 export interface TestStep {
   id: string;
-  type: 'navigate' | 'click' | 'fill' | 'select' | 'wait' | 'assertion' | 'screenshot';
+  type:
+    | 'navigate'
+    | 'click'
+    | 'fill'
+    | 'select'
+    | 'check'
+    | 'uncheck'
+    | 'press'
+    | 'hover'
+    | 'upload'
+    | 'drag'
+    | 'scroll'
+    | 'wait'
+    | 'assertion'
+    | 'screenshot';
   selector: string;
   value?: string;
   description: string;
@@ -45,6 +59,16 @@ export enum HealingStrategy {
   SEMANTIC_SIMILARITY = 'semantic_similarity'
 }
 
+export type StepRunStatus = 'pending' | 'running' | 'passed' | 'failed' | 'healed' | 'skipped';
+
+export interface ExecutionState {
+  executionId: string;
+  status: 'running' | 'passed' | 'failed' | 'error' | 'cancelled' | 'timedOut';
+  runningStepId: string | null;
+  stepStatuses: Record<string, StepRunStatus>;
+  stepErrors: Record<string, string>;
+}
+
 export interface RecordingState {
   isRecording: boolean;
   isPaused: boolean;
@@ -52,8 +76,43 @@ export interface RecordingState {
   steps: TestStep[];
   sessionId: string | null;
   healingConfig: SelfHealingConfig;
+  execution: ExecutionState | null;
+}
+
+// A frame of the recorded browser; width and height are the page's viewport in CSS pixels
+export interface ScreencastFrame {
+  sessionId: string;
+  data: string;
+  width: number;
+  height: number;
+  url: string;
 }
 
+// Actions run on the recorded browser by the server, see the browser:action event
+export type BrowserAction =
+  | { type: 'navigate'; url: string }
+  | { type: 'back' | 'forward' | 'reload' }
+  | { type: 'click'; selector: string }
+  | { type: 'type'; selector: string; text: string }
+  | { type: 'press'; key: string; selector?: string }
+  | { type: 'setViewport'; width: number; height: number }
+  | { type: 'screenshot'; fullPage?: boolean };
+
+export interface BrowserActionResult {
+  action: BrowserAction['type'];
+  url: string;
+  title: string;
+  viewport: { width: number; height: number } | null;
+  screenshot?: string;
+  step?: TestStep;
+}
+
+// Input played back in the recorded browser, at viewport coordinates
+export type ScreencastInput =
+  | { type: 'mousemove' | 'mousedown' | 'mouseup'; x: number; y: number; button?: 'left' | 'right' | 'middle'; clickCount?: number }
+  | { type: 'wheel'; x: number; y: number; deltaX: number; deltaY: number }
+  | { type: 'keydown' | 'keyup'; key: string };
+
 export interface Project {
   id: string;
   name: string;
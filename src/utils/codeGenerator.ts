@@ -71,6 +71,20 @@ ${indent}await findElementWithHealing(page, '${step.selector}', ${generateFallba
       return `${indent}// ${step.description}
 ${indent}await findElementWithHealing(page, '${step.selector}', ${generateFallbackSelectors(step.selector)}).selectOption('${step.value}');`;
     
+    case 'check':
+    case 'uncheck':
+    case 'hover':
+      return `${indent}// ${step.description}
+${indent}await findElementWithHealing(page, '${step.selector}', ${generateFallbackSelectors(step.selector)}).${step.type}();`;
+
+    case 'press':
+      return `${indent}// ${step.description}
+${indent}await findElementWithHealing(page, '${step.selector}', ${generateFallbackSelectors(step.selector)}).press('${step.value}');`;
+
+    case 'scroll':
+      return `${indent}// ${step.description}
+${indent}await findElementWithHealing(page, '${step.selector}', ${generateFallbackSelectors(step.selector)}).scrollIntoViewIfNeeded();`;
+
     case 'wait':
       return `${indent}// ${step.description}
 ${indent}await smartWait(page, '${step.value}', 5000);`;